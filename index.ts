@@ -5,7 +5,7 @@
  */
 /// <reference types="three" />
 /// <reference types="blockbench-types" />
-import { VERSION } from "@/lib/constants";
+import { VERSION, DEFAULT_HOST } from "@/lib/constants";
 import { createServer } from "@/server/server";
 import { tools, prompts } from "@/server/tools";
 import { resources } from "@/server";
@@ -13,11 +13,21 @@ import { uiSetup, uiTeardown } from "@/ui";
 import { settingsSetup, settingsTeardown } from "@/ui/settings";
 import { setupI18n } from "@/ui/i18n";
 import { sessionManager } from "@/lib/sessions";
+import { auditLogSetup, auditLogTeardown } from "@/lib/auditLog";
+import { sandboxTeardown } from "@/lib/sandbox";
+import { approvalSetup, approvalTeardown } from "@/lib/approval";
+import { schedulerSetup, schedulerTeardown } from "@/lib/scheduler";
+import { projectBindingSetup, projectBindingTeardown } from "@/lib/projectBinding";
+import { locksSetup, locksTeardown } from "@/lib/locks";
+import {
+  resourceSubscriptionsSetup,
+  resourceSubscriptionsTeardown,
+} from "@/lib/resourceSubscriptions";
 import type { NetServer, SessionTransports } from "@/server/net";
-import createNetServer from "@/server/net";
+import createNetServer, { createTlsServerFactory } from "@/server/net";
 import { getIcon } from "@/macros/getIcon" with { type: "macro" };
 
-let httpServer: NetServer | null = null;
+let httpServers: NetServer[] = [];
 let sessionTransports: SessionTransports | null = null;
 
 BBPlugin.register("mcp", {
@@ -48,10 +58,37 @@ BBPlugin.register("mcp", {
 
     settingsSetup();
 
+    // Serve over TLS when a certificate and key are configured. Checked before anything
+    // else is set up, so a bad certificate leaves only the settings to fix it.
+    const secure = Boolean(Settings.get("mcp_tls_enabled"));
+    let serverFactory = net;
+
+    if (secure) {
+      try {
+        serverFactory = createTlsServerFactory({
+          certPath: String(Settings.get("mcp_tls_cert") || ""),
+          keyPath: String(Settings.get("mcp_tls_key") || ""),
+        });
+      } catch (error) {
+        console.error("[MCP] Failed to set up TLS - server will not start:", error);
+        Blockbench.showQuickMessage(`MCP Server TLS error: ${(error as Error).message}`, 3000);
+        return;
+      }
+    }
+
+    auditLogSetup();
+    approvalSetup();
+    schedulerSetup();
+    projectBindingSetup();
+    locksSetup();
+    resourceSubscriptionsSetup();
+
     // Create TCP server to handle HTTP requests
-    [httpServer, sessionTransports] = createNetServer(net, {
+    [httpServers, sessionTransports] = createNetServer(serverFactory, {
       port: Number(Settings.get("mcp_port") || 3000),
-      endpoint: String(Settings.get("mcp_endpoint") || "/bb-mcp")
+      endpoint: String(Settings.get("mcp_endpoint") || "/bb-mcp"),
+      host: String(Settings.get("mcp_host") || DEFAULT_HOST),
+      secure,
     });
 
     // Create a reference server for UI display purposes
@@ -65,11 +102,9 @@ BBPlugin.register("mcp", {
   },
 
   onunload() {
-    // Close HTTP server
-    if (httpServer) {
-      httpServer.close();
-      httpServer = null;
-    }
+    // Close HTTP servers
+    httpServers.forEach((server) => server.close());
+    httpServers = [];
 
     // Close all session transports
     const values = Array.from(sessionTransports?.values() ?? []);
@@ -81,6 +116,14 @@ BBPlugin.register("mcp", {
     // Clear all sessions
     sessionManager.clear();
 
+    auditLogTeardown();
+    approvalTeardown();
+    schedulerTeardown();
+    projectBindingTeardown();
+    locksTeardown();
+    resourceSubscriptionsTeardown();
+    sandboxTeardown();
+
     uiTeardown();
     settingsTeardown();
   },
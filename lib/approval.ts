@@ -0,0 +1,101 @@
+/**
+ * Human-in-the-loop approval for destructive tool calls.
+ *
+ * While the `mcp_require_approval` setting is on, calls to tools annotated with
+ * `destructiveHint` wait for the user to approve them in a dialog. Denied calls are
+ * rejected with a tool error. Calls without a session (e.g. from the tool test dialog)
+ * are started by the user and never prompt.
+ */
+import { useToolMiddleware, type ToolCall } from "@/lib/pipeline";
+import { sessionManager } from "@/lib/sessions";
+import { summarizeArgs } from "@/lib/util";
+
+type ApprovalDecision = "approve" | "always" | "deny";
+
+/** Longer string arguments are shortened in the dialog */
+const MAX_ARG_LENGTH = 300;
+
+let removeMiddleware: (() => void) | undefined;
+// Prompts are chained so only one approval dialog is open at a time
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+export function isApprovalModeEnabled(): boolean {
+  return Boolean(Settings.get("mcp_require_approval"));
+}
+
+function needsApproval(call: ToolCall): boolean {
+  const { sessionId } = call.context;
+  if (!sessionId || !call.definition.annotations?.destructiveHint) return false;
+  return !sessionManager.get(sessionId)?.approvedTools?.has(call.name);
+}
+
+function describeClient(sessionId: string): string {
+  const session = sessionManager.get(sessionId);
+  return session?.clientName || sessionId.slice(0, 8) + "...";
+}
+
+function showApprovalDialog(call: ToolCall): Promise<ApprovalDecision> {
+  const args = JSON.stringify(summarizeArgs(call.args, MAX_ARG_LENGTH), null, 2);
+  const decisions: ApprovalDecision[] = ["approve", "always", "deny"];
+
+  return new Promise((resolve) => {
+    Blockbench.showMessageBox(
+      {
+        title: tl("mcp.approval.title"),
+        message: `${tl("mcp.approval.message", [describeClient(call.context.sessionId!), call.name])}\n\n\`\`\`json\n${args}\n\`\`\``,
+        icon: "gpp_maybe",
+        buttons: [tl("mcp.approval.approve"), tl("mcp.approval.always"), tl("mcp.approval.deny")],
+        confirm: 0,
+        cancel: 2,
+      },
+      (button: number | string) => {
+        resolve(decisions[Number(button)] ?? "deny");
+      }
+    );
+  });
+}
+
+/**
+ * Waits for the user's decision on a call, one dialog at a time.
+ * @throws If the user denies the call or the client cancelled it while it was waiting.
+ */
+async function requestApproval(call: ToolCall): Promise<void> {
+  const decision = promptQueue.then(() =>
+    // "Always allow" on an earlier prompt may have covered this call while it was queued
+    needsApproval(call) && !call.context.signal.aborted ? showApprovalDialog(call) : "approve"
+  );
+  promptQueue = decision.catch(() => undefined);
+
+  switch (await decision) {
+    case "always":
+      sessionManager.approveTool(call.context.sessionId!, call.name);
+      break;
+    case "deny":
+      throw new Error(`The user denied the call to "${call.name}". Do not retry it without asking the user.`);
+  }
+
+  if (call.context.signal.aborted) {
+    throw new Error("Tool execution was cancelled by the client before it was approved.");
+  }
+}
+
+/**
+ * Starts gating destructive tool calls behind the approval dialog.
+ */
+export function approvalSetup(): void {
+  if (removeMiddleware) return;
+
+  removeMiddleware = useToolMiddleware({
+    name: "approval",
+    async beforeCall(call) {
+      if (!isApprovalModeEnabled() || !needsApproval(call)) return;
+      await requestApproval(call);
+    },
+  });
+}
+
+export function approvalTeardown(): void {
+  removeMiddleware?.();
+  removeMiddleware = undefined;
+  promptQueue = Promise.resolve();
+}
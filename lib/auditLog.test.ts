@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import path from "path";
+import { auditLogSetup, auditLogTeardown, getRecentAuditRecords } from "@/lib/auditLog";
+import { executeToolCall, useToolMiddleware } from "@/lib/pipeline";
+import type { ToolDefinition } from "@/lib/factories";
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function createDefinition(execute: ToolDefinition["execute"]): ToolDefinition {
+  return { title: "Test", description: "Test tool", inputSchema: {}, execute };
+}
+
+let removeQueue: (() => void) | undefined;
+
+beforeEach(() => {
+  Object.assign(globalThis, {
+    Settings: { get: (id: string) => id === "mcp_audit_log" },
+    PathModule: path,
+    SystemInfo: { user_data_directory: "/tmp" },
+    // Without fs the records are only kept in memory
+    requireNativeModule: () => undefined,
+  });
+  auditLogSetup();
+  // Stands in for the scheduler and approval, which hold calls before the tool runs
+  removeQueue = useToolMiddleware({ name: "queue", beforeCall: () => sleep(60) });
+});
+
+afterEach(() => {
+  removeQueue?.();
+  auditLogTeardown();
+});
+
+describe("audit log", () => {
+  test("records the wait before the tool separately from its run time", async () => {
+    await executeToolCall("test_tool", createDefinition(async () => "done"), { value: 1 }, {});
+
+    const [record] = getRecentAuditRecords();
+    expect(record).toMatchObject({ tool: "test_tool", args: { value: 1 }, success: true, result: "done" });
+    expect(record.waitMs).toBeGreaterThanOrEqual(50);
+    expect(record.durationMs).toBeLessThan(50);
+  });
+
+  test("counts calls rejected before the tool ran as waiting only", async () => {
+    const removeReject = useToolMiddleware({
+      name: "reject",
+      beforeCall() {
+        throw new Error("Denied");
+      },
+    });
+    try {
+      await expect(executeToolCall("test_tool", createDefinition(async () => "done"), {}, {})).rejects.toThrow(
+        "Denied"
+      );
+    } finally {
+      removeReject();
+    }
+
+    const [record] = getRecentAuditRecords();
+    expect(record).toMatchObject({ success: false, error: "Denied", durationMs: 0 });
+    expect(record.waitMs).toBeGreaterThanOrEqual(50);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Append-only audit log of every tool call, written as JSON Lines.
+ *
+ * Records are appended by a tool middleware to the file from the `mcp_audit_log_path`
+ * setting (or `mcp-audit-log.jsonl` in Blockbench's user data directory) while
+ * `mcp_audit_log` is enabled. The most recent records are kept in memory for the panel.
+ */
+import { useToolMiddleware, type ToolCall } from "@/lib/pipeline";
+import { sessionManager } from "@/lib/sessions";
+import type { CallToolResult } from "@/lib/factories";
+import { summarizeArgs, truncate } from "@/lib/util";
+
+export interface AuditRecord {
+  /** ISO 8601 time the call started */
+  timestamp: string;
+  sessionId: string | null;
+  clientName: string | null;
+  tool: string;
+  args: Record<string, unknown>;
+  /** Time the call waited before the tool ran, e.g. queued in the scheduler or for approval */
+  waitMs: number;
+  /** Time the tool itself ran */
+  durationMs: number;
+  success: boolean;
+  /** Error message for failed calls */
+  error?: string;
+  /** Shortened text of the result for successful calls */
+  result?: string;
+}
+
+type AuditLogListener = (records: AuditRecord[]) => void;
+
+export const AUDIT_LOG_FILE_NAME = "mcp-audit-log.jsonl";
+
+/** Records kept in memory for the panel viewer */
+const MAX_RECENT_RECORDS = 500;
+/** Longer string arguments are shortened before they are logged */
+const MAX_ARG_LENGTH = 500;
+const MAX_RESULT_LENGTH = 300;
+
+const recentRecords: AuditRecord[] = [];
+const listeners: Set<AuditLogListener> = new Set();
+
+let removeMiddleware: (() => void) | undefined;
+// Appends are chained so records land in the file in call order
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getFs() {
+  // @ts-ignore - requireNativeModule is a Blockbench global
+  return requireNativeModule("fs", {
+    message: "File access is required to write the MCP audit log.",
+    optional: true,
+  }) as typeof import("fs") | undefined;
+}
+
+export function isAuditLogEnabled(): boolean {
+  return Boolean(Settings.get("mcp_audit_log"));
+}
+
+export function getAuditLogPath(): string {
+  const configured = String(Settings.get("mcp_audit_log_path") || "").trim();
+  return configured || PathModule.join(SystemInfo.user_data_directory, AUDIT_LOG_FILE_NAME);
+}
+
+function summarizeResult(result: CallToolResult): string {
+  const text = result.content
+    .map((item) => {
+      if (item.type === "text") return item.text;
+      if (item.type === "resource") return `[resource: ${item.resource.uri}]`;
+      return `[${item.type}: ${item.mimeType}]`;
+    })
+    .join("\n");
+  return truncate(text, MAX_RESULT_LENGTH);
+}
+
+function createRecord(call: ToolCall, outcome: Pick<AuditRecord, "success" | "error" | "result">): AuditRecord {
+  const sessionId = call.context.sessionId ?? null;
+  const now = Date.now();
+  // Calls rejected before the tool ran spent all their time waiting
+  const executedAt = call.executedAt ?? now;
+
+  return {
+    timestamp: new Date(call.startedAt).toISOString(),
+    sessionId,
+    clientName: (sessionId && sessionManager.get(sessionId)?.clientName) || null,
+    tool: call.name,
+    args: summarizeArgs(call.args, MAX_ARG_LENGTH) as Record<string, unknown>,
+    waitMs: executedAt - call.startedAt,
+    durationMs: now - executedAt,
+    ...outcome,
+  };
+}
+
+function trimRecentRecords(): void {
+  if (recentRecords.length > MAX_RECENT_RECORDS) {
+    recentRecords.splice(0, recentRecords.length - MAX_RECENT_RECORDS);
+  }
+}
+
+function appendRecord(record: AuditRecord): void {
+  recentRecords.push(record);
+  trimRecentRecords();
+  notifyListeners();
+
+  const fs = getFs();
+  if (!fs) return;
+
+  const path = getAuditLogPath();
+  const line = `${JSON.stringify(record)}\n`;
+
+  writeQueue = writeQueue
+    .then(() => fs.promises.appendFile(path, line, "utf-8"))
+    .catch((error: unknown) => {
+      console.error(`[MCP] Failed to write audit log to ${path}:`, error);
+    });
+}
+
+/**
+ * Loads the most recent records from the log file into memory.
+ */
+async function loadRecentRecords(): Promise<void> {
+  const fs = getFs();
+  const path = getAuditLogPath();
+  if (!fs || !fs.existsSync(path)) return;
+
+  try {
+    const content = await fs.promises.readFile(path, "utf-8");
+    const records: AuditRecord[] = [];
+
+    for (const line of content.split("\n").slice(-MAX_RECENT_RECORDS - 1)) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip partial lines, e.g. from a crash mid-write
+      }
+    }
+
+    // Calls recorded while the file was being read are newer, so they stay at the end
+    recentRecords.unshift(...records);
+    trimRecentRecords();
+    notifyListeners();
+  } catch (error) {
+    console.error(`[MCP] Failed to read audit log from ${path}:`, error);
+  }
+}
+
+/**
+ * Returns the records kept in memory, oldest first.
+ */
+export function getRecentAuditRecords(): AuditRecord[] {
+  return [...recentRecords];
+}
+
+/**
+ * Serializes records in the on-disk JSON Lines format.
+ */
+export function formatAuditRecords(records: AuditRecord[]): string {
+  return records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+}
+
+/**
+ * Subscribes to new audit records. The listener is called immediately with the current records.
+ */
+export function subscribeAuditLog(listener: AuditLogListener): () => void {
+  listeners.add(listener);
+  listener(getRecentAuditRecords());
+  return () => listeners.delete(listener);
+}
+
+function notifyListeners(): void {
+  const records = getRecentAuditRecords();
+  listeners.forEach((listener) => {
+    try {
+      listener(records);
+    } catch (error) {
+      console.error("[MCP] Audit log listener error:", error);
+    }
+  });
+}
+
+/**
+ * Starts recording tool calls.
+ */
+export function auditLogSetup(): void {
+  if (removeMiddleware) return;
+
+  removeMiddleware = useToolMiddleware({
+    name: "audit-log",
+    afterCall(call, result) {
+      if (!isAuditLogEnabled()) return;
+      appendRecord(
+        createRecord(call, {
+          success: !result.isError,
+          result: summarizeResult(result),
+        })
+      );
+    },
+    onError(call, error) {
+      if (!isAuditLogEnabled()) return;
+      appendRecord(
+        createRecord(call, {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    },
+  });
+
+  loadRecentRecords();
+}
+
+export function auditLogTeardown(): void {
+  removeMiddleware?.();
+  removeMiddleware = undefined;
+  recentRecords.length = 0;
+  listeners.clear();
+}
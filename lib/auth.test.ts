@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { generateAuthToken, isAuthorized } from "@/lib/auth";
+
+let values: Record<string, unknown> = {};
+
+beforeEach(() => {
+  values = { mcp_require_auth: true, mcp_auth_token: "secret-token" };
+  // @ts-ignore - only Settings.get is used
+  globalThis.Settings = { get: (id: string) => values[id] };
+});
+
+describe("isAuthorized", () => {
+  test("accepts the configured bearer token", () => {
+    expect(isAuthorized("Bearer secret-token")).toBe(true);
+    expect(isAuthorized("bearer   secret-token ")).toBe(true);
+  });
+
+  test("rejects wrong, missing and non-bearer credentials", () => {
+    expect(isAuthorized("Bearer secret-tokeN")).toBe(false);
+    expect(isAuthorized("Bearer secret")).toBe(false);
+    expect(isAuthorized(undefined)).toBe(false);
+    expect(isAuthorized("Basic secret-token")).toBe(false);
+  });
+
+  test("rejects every request when no token is configured", () => {
+    values.mcp_auth_token = "";
+
+    expect(isAuthorized("Bearer ")).toBe(false);
+  });
+
+  test("accepts every request when authentication is disabled", () => {
+    values.mcp_require_auth = false;
+
+    expect(isAuthorized(undefined)).toBe(true);
+  });
+});
+
+describe("generateAuthToken", () => {
+  test("returns 256 random bits as hex", () => {
+    const token = generateAuthToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateAuthToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Shared-secret bearer token authentication for the MCP HTTP endpoint.
+ *
+ * The token lives in the `mcp_auth_token` setting and is only enforced when
+ * `mcp_require_auth` is enabled. Clients send it as `Authorization: Bearer <token>`.
+ */
+
+type AuthListener = (state: AuthState) => void;
+
+export interface AuthState {
+  enabled: boolean;
+  token: string;
+}
+
+const listeners: Set<AuthListener> = new Set();
+
+/**
+ * Generates a new random token (256 bits, hex encoded).
+ */
+export function generateAuthToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function isAuthEnabled(): boolean {
+  return Boolean(Settings.get("mcp_require_auth"));
+}
+
+export function getAuthToken(): string {
+  return String(Settings.get("mcp_auth_token") || "");
+}
+
+export function getAuthState(): AuthState {
+  return {
+    enabled: isAuthEnabled(),
+    token: getAuthToken(),
+  };
+}
+
+/**
+ * Generates a token on first run so it can be shown and copied from the panel.
+ */
+export function ensureAuthToken(): void {
+  if (getAuthToken()) return;
+  settings.mcp_auth_token?.set(generateAuthToken());
+}
+
+/**
+ * Replaces the stored token with a freshly generated one.
+ * Clients still using the old token are rejected on their next request.
+ */
+export function rotateAuthToken(): string {
+  const token = generateAuthToken();
+  // Setting.set() triggers the onChange handler, which notifies subscribers
+  settings.mcp_auth_token?.set(token);
+  console.log("[MCP] Authentication token rotated");
+  return token;
+}
+
+/**
+ * Compares two strings in constant time relative to their contents.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  let mismatch = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Checks an `Authorization` header value against the configured token.
+ * Always succeeds when authentication is disabled.
+ * @param header - Raw value of the `Authorization` request header
+ */
+export function isAuthorized(header?: string): boolean {
+  if (!isAuthEnabled()) return true;
+
+  const token = getAuthToken();
+  if (!token || !header) return false;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  return timingSafeEqual(match[1].trim(), token);
+}
+
+/**
+ * Subscribes to authentication setting changes.
+ * The listener is called immediately with the current state.
+ */
+export function subscribeAuth(listener: AuthListener): () => void {
+  listeners.add(listener);
+  listener(getAuthState());
+  return () => listeners.delete(listener);
+}
+
+export function notifyAuthChange(): void {
+  const state = getAuthState();
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error("[MCP] Auth listener error:", error);
+    }
+  });
+}
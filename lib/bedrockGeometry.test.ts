@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { validateBedrockGeometry } from "@/lib/bedrockGeometry";
+
+function createGeometry(bones: unknown[]) {
+  return {
+    format_version: "1.12.0",
+    "minecraft:geometry": [
+      {
+        description: { identifier: "geometry.test", texture_width: 64, texture_height: 64 },
+        bones,
+      },
+    ],
+  };
+}
+
+describe("validateBedrockGeometry", () => {
+  test("accepts valid geometry and keeps unknown fields", () => {
+    const file = validateBedrockGeometry({
+      ...createGeometry([
+        { name: "body", pivot: [0, 0, 0], cubes: [{ origin: [-4, 0, -4], size: [8, 8, 8], uv: [0, 0] }] },
+        { name: "head", parent: "body", pivot: [0, 8, 0] },
+      ]),
+      custom: true,
+    });
+
+    expect(file["minecraft:geometry"][0].bones).toHaveLength(2);
+    expect((file as Record<string, unknown>).custom).toBe(true);
+  });
+
+  test("rejects legacy geometry", () => {
+    expect(() =>
+      validateBedrockGeometry({ format_version: "1.10.0", "geometry.test": { bones: [] } })
+    ).toThrow("Legacy geometry");
+  });
+
+  test("reports schema problems with their paths", () => {
+    expect(() =>
+      validateBedrockGeometry(createGeometry([{ name: "body", cubes: [{ origin: [0, 0], size: [1, 1, 1] }] }]))
+    ).toThrow("minecraft:geometry[0].bones[0].cubes[0].origin");
+  });
+
+  test("reports duplicate and missing parent bones", () => {
+    let message = "";
+    try {
+      validateBedrockGeometry(
+        createGeometry([{ name: "body" }, { name: "body" }, { name: "arm", parent: "torso" }])
+      );
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('minecraft:geometry[0].bones[1].name: Duplicate bone name "body"');
+    expect(message).toContain('minecraft:geometry[0].bones[2].parent: Parent bone "torso" does not exist');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Schema validation for Bedrock `.geo.json` geometry files (format 1.12.0 and later).
+ * Only the fields Blockbench reads are checked; unknown fields are allowed.
+ */
+import { z } from "zod";
+import { formatSchemaIssues } from "@/lib/util";
+
+const vector2 = z.tuple([z.number(), z.number()]);
+const vector3 = z.tuple([z.number(), z.number(), z.number()]);
+
+const faceUvSchema = z
+  .object({
+    uv: vector2,
+    uv_size: vector2.optional(),
+    uv_rotation: z.number().optional(),
+    material_instance: z.string().optional(),
+  })
+  .passthrough();
+
+const cubeSchema = z
+  .object({
+    origin: vector3,
+    size: vector3,
+    uv: z
+      .union([
+        vector2,
+        z
+          .object({
+            north: faceUvSchema.optional(),
+            south: faceUvSchema.optional(),
+            east: faceUvSchema.optional(),
+            west: faceUvSchema.optional(),
+            up: faceUvSchema.optional(),
+            down: faceUvSchema.optional(),
+          })
+          .strict(),
+      ])
+      .optional(),
+    inflate: z.number().optional(),
+    pivot: vector3.optional(),
+    rotation: vector3.optional(),
+    mirror: z.boolean().optional(),
+  })
+  .passthrough();
+
+const boneSchema = z
+  .object({
+    name: z.string().min(1),
+    parent: z.string().optional(),
+    pivot: vector3.optional(),
+    rotation: vector3.optional(),
+    mirror: z.boolean().optional(),
+    inflate: z.number().optional(),
+    cubes: z.array(cubeSchema).optional(),
+    locators: z
+      .record(z.union([vector3, z.object({ offset: vector3 }).passthrough()]))
+      .optional(),
+  })
+  .passthrough();
+
+const geometrySchema = z
+  .object({
+    description: z
+      .object({
+        identifier: z.string().regex(/^geometry\./, 'Identifiers start with "geometry."'),
+        texture_width: z.number().int().positive().optional(),
+        texture_height: z.number().int().positive().optional(),
+        visible_bounds_width: z.number().optional(),
+        visible_bounds_height: z.number().optional(),
+        visible_bounds_offset: vector3.optional(),
+      })
+      .passthrough(),
+    bones: z.array(boneSchema).optional(),
+  })
+  .passthrough();
+
+export const bedrockGeometryFileSchema = z
+  .object({
+    format_version: z.string(),
+    "minecraft:geometry": z.array(geometrySchema).min(1),
+  })
+  .passthrough();
+
+export type BedrockGeometryFile = z.infer<typeof bedrockGeometryFileSchema>;
+export type BedrockGeometry = BedrockGeometryFile["minecraft:geometry"][number];
+
+/**
+ * Checks references between bones that the schema can't express.
+ */
+function findBoneIssues(geometry: BedrockGeometry, index: number) {
+  const bones = geometry.bones ?? [];
+  const names = new Set<string>();
+  const issues: { path: (string | number)[]; message: string }[] = [];
+
+  bones.forEach((bone, boneIndex) => {
+    const path = ["minecraft:geometry", index, "bones", boneIndex];
+    if (names.has(bone.name)) {
+      issues.push({ path: [...path, "name"], message: `Duplicate bone name "${bone.name}"` });
+    }
+    names.add(bone.name);
+  });
+  bones.forEach((bone, boneIndex) => {
+    if (bone.parent !== undefined && !names.has(bone.parent)) {
+      issues.push({
+        path: ["minecraft:geometry", index, "bones", boneIndex, "parent"],
+        message: `Parent bone "${bone.parent}" does not exist`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validates parsed JSON as a Bedrock geometry file.
+ * @throws Error listing every problem with its JSON path
+ */
+export function validateBedrockGeometry(data: unknown): BedrockGeometryFile {
+  if (data && typeof data === "object" && Object.keys(data).some((key) => key.startsWith("geometry."))) {
+    throw new Error(
+      'Legacy geometry (format_version 1.8.0/1.10.0) is not supported. Use format_version 1.12.0 or later with a "minecraft:geometry" array.'
+    );
+  }
+
+  const result = bedrockGeometryFileSchema.safeParse(data);
+  const issues = result.success
+    ? result.data["minecraft:geometry"].flatMap(findBoneIssues)
+    : result.error.issues;
+
+  if (!result.success || issues.length > 0) {
+    throw new Error(`Invalid Bedrock geometry:\n${formatSchemaIssues(issues)}`);
+  }
+  return result.data;
+}
@@ -2,6 +2,7 @@ import { z } from "zod";
 import type { IMCPTool, IMCPPrompt, IMCPResource } from "@/types";
 import { getServer } from "@/server/server";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { executeToolCall } from "@/lib/pipeline";
 
 /**
  * User-visible list of tool details.
@@ -19,7 +20,18 @@ export const prompts: Record<string, IMCPPrompt> = {};
 export const resources: Record<string, IMCPResource> = {};
 
 export interface ToolContext {
-  reportProgress: (progress: { progress: number; total: number }) => void;
+  /**
+   * Sends a `notifications/progress` message for the current request.
+   * Only delivered when the client supplied a progress token and responses are streamed over SSE.
+   */
+  reportProgress: (progress: { progress: number; total: number; message?: string }) => void;
+  /**
+   * Aborted when the client sends `notifications/cancelled` for the current request.
+   * Long-running tools should check it between steps.
+   */
+  signal: AbortSignal;
+  /** MCP session that issued the call, if any */
+  sessionId?: string;
 }
 
 interface TextContent {
@@ -33,16 +45,30 @@ interface ImageContent {
   mimeType: string;
 }
 
-type ToolContentItem = TextContent | ImageContent;
+interface EmbeddedResourceContent {
+  type: "resource";
+  resource:
+    | { uri: string; text: string; mimeType?: string }
+    | { uri: string; blob: string; mimeType?: string };
+}
+
+type ToolContentItem = TextContent | ImageContent | EmbeddedResourceContent;
+
+export interface CallToolResult {
+  content: ToolContentItem[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
 
-type ToolResult = string | { content: ToolContentItem[]; structuredContent?: unknown };
+export type ToolResult = string | CallToolResult;
 
-interface ToolDefinition {
+export interface ToolDefinition {
   title: string;
   description: string;
   inputSchema: Record<string, z.ZodType>;
-  outputSchema?: Record<string, z.ZodType> | z.ZodType;
-  execute: (args: Record<string, unknown>, context?: ToolContext) => Promise<ToolResult>;
+  /** Zod schema that `structuredContent` is validated against before the result is sent */
+  outputSchema?: z.ZodType;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
   annotations?: {
     title?: string;
     destructiveHint?: boolean;
@@ -56,6 +82,69 @@ interface ToolDefinition {
  */
 const toolDefinitions: Record<string, ToolDefinition> = {};
 
+/**
+ * The part of the SDK's `RegisteredTool` handle used to toggle tools on a live server.
+ * Disabled tools are hidden from `tools/list` and rejected when called.
+ */
+interface RegisteredToolHandle {
+  enabled: boolean;
+}
+
+/**
+ * Registered tool handles per server instance, used to enable or disable tools without re-registering them
+ */
+const registeredTools: WeakMap<object, Map<string, RegisteredToolHandle>> = new WeakMap();
+
+/**
+ * Signature of `McpServer.registerTool` as used by the tool factories.
+ */
+type RegisterTool = (
+  toolName: string,
+  definition: {
+    title: string;
+    description: string;
+    inputSchema: Record<string, z.ZodType>;
+    outputSchema?: z.ZodType;
+    annotations?: ToolDefinition["annotations"];
+  },
+  callback: (args: unknown, extra: unknown) => Promise<unknown>
+) => RegisteredToolHandle;
+
+/**
+ * Registers a stored tool definition on a server instance.
+ * Every call runs through the shared tool-call pipeline, so the singleton
+ * server and per-session servers behave identically.
+ */
+function registerToolDefinition(
+  server: unknown,
+  name: string,
+  toolDef: ToolDefinition,
+  enabled: boolean
+) {
+  const typedServer = server as { registerTool: RegisterTool };
+
+  const handle = typedServer.registerTool(
+    name,
+    {
+      title: toolDef.title,
+      description: toolDef.description,
+      inputSchema: toolDef.inputSchema,
+      outputSchema: toolDef.outputSchema,
+      annotations: toolDef.annotations,
+    },
+    (args: unknown, extra: unknown) =>
+      executeToolCall(name, toolDef, args as Record<string, unknown>, extra)
+  );
+  handle.enabled = enabled;
+
+  let handles = registeredTools.get(typedServer);
+  if (!handles) {
+    handles = new Map();
+    registeredTools.set(typedServer, handles);
+  }
+  handles.set(name, handle);
+}
+
 /**
  * Extracts the shape from a Zod schema, unwrapping ZodEffects if necessary.
  * Uses _def.typeName for reliable type checking across different Zod instances.
@@ -81,9 +170,10 @@ function extractShape(schema: z.ZodType): Record<string, z.ZodType> {
  * @param tool.description - The description of the tool.
  * @param tool.annotations - Annotations for the tool (title, hints).
  * @param tool.parameters - Zod schema for input parameters (supports ZodObject or ZodEffects from .refine()).
+ * @param tool.outputSchema - Optional ZodObject describing the tool's `structuredContent`. Tools that declare one must return `structuredResult(...)`.
  * @param tool.execute - The async function to execute when the tool is called.
  * @param status - The status of the tool (stable, experimental, deprecated).
- * @param enabled - Whether the tool is enabled.
+ * @param enabled - Whether the tool starts enabled. Tool profiles may change this at runtime.
  * @returns - The created tool metadata.
  * @throws - If a tool with the same name already exists.
  */
@@ -98,7 +188,8 @@ export function createTool<T extends z.ZodType>(
       readOnlyHint?: boolean;
     };
     parameters: T;
-    execute: (args: z.infer<T>, context?: ToolContext) => Promise<ToolResult>;
+    outputSchema?: z.AnyZodObject;
+    execute: (args: z.infer<T>, context: ToolContext) => Promise<ToolResult>;
   },
   status: IMCPTool["status"] = "stable",
   enabled: boolean = true
@@ -113,6 +204,7 @@ export function createTool<T extends z.ZodType>(
     title: tool.annotations?.title ?? tool.description,
     description: tool.description,
     inputSchema,
+    outputSchema: tool.outputSchema,
     execute: tool.execute,
     annotations: tool.annotations,
   };
@@ -120,58 +212,7 @@ export function createTool<T extends z.ZodType>(
   // Store tool definition
   toolDefinitions[name] = toolDef;
 
-  // Register with server if enabled
-  if (enabled) {
-    type ToolArgs = z.infer<T>;
-
-    const server = getServer();
-
-    const registerTool = server.registerTool.bind(server) as unknown as (
-      toolName: string,
-      definition: {
-        title: string;
-        description: string;
-        inputSchema: Record<string, z.ZodType>;
-      },
-      callback: (args: unknown, extra: unknown) => Promise<unknown>
-    ) => void;
-
-    registerTool(
-      name,
-      {
-        title: toolDef.title,
-        description: toolDef.description,
-        inputSchema,
-      },
-      async (args: unknown, _extra: unknown) => {
-        // Provide a no-op reportProgress function
-        // Note: Progress notifications require SSE streaming which is not enabled
-        // in the current StreamableHTTPServerTransport configuration (enableJsonResponse: true)
-        const reportProgress: ToolContext["reportProgress"] = () => {};
-
-        const context: ToolContext = { reportProgress };
-        const result = await tool.execute(args as ToolArgs, context);
-
-        // Normalize result to MCP CallToolResult format
-        // Tools may return plain strings for convenience, convert to proper format
-        if (typeof result === "string") {
-          return {
-            content: [{ type: "text", text: result }],
-          };
-        }
-
-        // If result already has content array, return as-is
-        if (result && typeof result === "object" && "content" in result) {
-          return result;
-        }
-
-        // Fallback: stringify any other result
-        return {
-          content: [{ type: "text", text: JSON.stringify(result) }],
-        };
-      }
-    );
-  }
+  registerToolDefinition(getServer(), name, toolDef, enabled);
 
   tools[name] = {
     name,
@@ -200,53 +241,48 @@ export function getEnabledToolDefinitions() {
 }
 
 /**
- * Registers all enabled tools on a server instance
+ * Registers all tools on a server instance
  * Used to set up new session servers with the same tools
+ * @param server - The session server.
+ * @param isEnabled - Decides which tools start enabled. Defaults to the tools' global state.
  */
-export function registerToolsOnServer(server: unknown) {
-  const enabledDefs = getEnabledToolDefinitions();
+export function registerToolsOnServer(
+  server: unknown,
+  isEnabled: (name: string) => boolean = (name) => Boolean(tools[name]?.enabled)
+) {
+  for (const [name, toolDef] of Object.entries(toolDefinitions)) {
+    registerToolDefinition(server, name, toolDef, isEnabled(name));
+  }
+}
 
-  const typedServer = server as {
-    registerTool: (
-      toolName: string,
-      definition: {
-        title: string;
-        description: string;
-        inputSchema: Record<string, z.ZodType>;
-      },
-      callback: (args: unknown, extra: unknown) => Promise<unknown>
-    ) => void;
-  };
+/**
+ * Enables or disables tools on a server that already has them registered.
+ * Sends `notifications/tools/list_changed` once if anything changed.
+ * @param server - A server previously passed to `registerToolsOnServer`.
+ * @param isEnabled - Decides which tools are enabled.
+ * @returns - Whether the server's tool list changed.
+ */
+export function setToolsEnabledOnServer(
+  server: unknown,
+  isEnabled: (name: string) => boolean
+): boolean {
+  const handles = registeredTools.get(server as object);
+  if (!handles) return false;
+
+  let changed = false;
+  for (const [name, handle] of handles) {
+    const enabled = isEnabled(name);
+    if (handle.enabled !== enabled) {
+      handle.enabled = enabled;
+      changed = true;
+    }
+  }
 
-  for (const [name, toolDef] of Object.entries(enabledDefs)) {
-    typedServer.registerTool(
-      name,
-      {
-        title: toolDef.title,
-        description: toolDef.description,
-        inputSchema: toolDef.inputSchema,
-      },
-      async (args: unknown, _extra: unknown) => {
-        const reportProgress: ToolContext["reportProgress"] = () => {};
-        const context: ToolContext = { reportProgress };
-        const result = await toolDef.execute(args as Record<string, unknown>, context);
-
-        if (typeof result === "string") {
-          return {
-            content: [{ type: "text", text: result }],
-          };
-        }
-
-        if (result && typeof result === "object" && "content" in result) {
-          return result;
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result) }],
-        };
-      }
-    );
+  if (changed) {
+    (server as { sendToolListChanged: () => void }).sendToolListChanged();
   }
+
+  return changed;
 }
 
 /**
@@ -259,6 +295,8 @@ interface ResourceDefinition {
     title?: string;
     description?: string;
   };
+  /** Blockbench events that change the resource; subscribed clients are notified when they fire */
+  updatedOn?: BlockbenchEventName[];
   listCallback?: () => Promise<{
     resources: Array<{ uri: string; name: string; description?: string; mimeType?: string }>;
   }>;
@@ -279,6 +317,7 @@ const resourceDefinitions: Record<string, ResourceDefinition> = {};
  * @param config.uriTemplate - The URI template pattern (e.g., "nodes://{id}").
  * @param config.title - Optional title for the resource.
  * @param config.description - The description of the resource.
+ * @param config.updatedOn - Optional Blockbench events that change the resource, used for `resources/subscribe`.
  * @param config.listCallback - Optional async function to list available resources.
  * @param config.readCallback - Async function to read the resource.
  * @returns - The created resource metadata.
@@ -289,6 +328,7 @@ export function createResource(
     uriTemplate: string;
     title?: string;
     description: string;
+    updatedOn?: BlockbenchEventName[];
     listCallback?: () => Promise<{
       resources: Array<{ uri: string; name: string; description?: string; mimeType?: string }>;
     }>;
@@ -311,6 +351,7 @@ export function createResource(
       title: config.title,
       description: config.description,
     },
+    updatedOn: config.updatedOn,
     listCallback: config.listCallback,
     readCallback: config.readCallback,
   };
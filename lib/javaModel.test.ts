@@ -0,0 +1,135 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import path from "path";
+import {
+  findPackOfModelFile,
+  getDefaultFaceUv,
+  getPackFile,
+  resolveJavaModel,
+  resolveTextureVariable,
+  validateJavaModel,
+  type JavaModel,
+} from "@/lib/javaModel";
+
+beforeAll(() => {
+  // @ts-ignore - PathModule is a Blockbench global
+  globalThis.PathModule = path;
+});
+
+function createLoader(models: Record<string, JavaModel>) {
+  return (id: string) => models[id] ?? null;
+}
+
+describe("resolveJavaModel", () => {
+  test("resolves built-in parents and texture variables", () => {
+    const model = { parent: "block/cube_column", textures: { end: "block/log_top", side: "block/log" } };
+    const resolved = resolveJavaModel(model, "minecraft:block/log", createLoader({}));
+
+    expect(resolved.chain).toEqual([
+      "minecraft:block/log",
+      "minecraft:block/cube_column",
+      "minecraft:block/cube",
+      "minecraft:block/block",
+    ]);
+    expect(resolved.elements).toHaveLength(1);
+    expect(resolved.textures.up).toBe("minecraft:block/log_top");
+    expect(resolved.textures.north).toBe("minecraft:block/log");
+    // The model's own variables come first
+    expect(Object.keys(resolved.textures).slice(0, 2)).toEqual(["end", "side"]);
+  });
+
+  test("prefers pack models over built-in parents and children over parents", () => {
+    const resolved = resolveJavaModel(
+      { parent: "custom:block/base", textures: { main: "custom:block/child" } },
+      "custom:block/child",
+      createLoader({
+        "custom:block/base": {
+          parent: "block/cube_all",
+          ambientocclusion: false,
+          textures: { main: "custom:block/base", all: "#main" },
+        },
+      })
+    );
+
+    expect(resolved.textures.all).toBe("custom:block/child");
+    expect(resolved.ambientocclusion).toBe(false);
+  });
+
+  test("uses the elements of the closest model that has any", () => {
+    const elements = [{ from: [0, 0, 0], to: [16, 8, 16] }] as JavaModel["elements"];
+    const resolved = resolveJavaModel(
+      { parent: "block/slab" },
+      "minecraft:block/oak_slab",
+      createLoader({ "minecraft:block/slab": { parent: "block/cube", elements } })
+    );
+
+    expect(resolved.elements).toBe(elements!);
+  });
+
+  test("stops at generated parents", () => {
+    const resolved = resolveJavaModel(
+      { parent: "item/generated" },
+      "minecraft:item/stick",
+      createLoader({ "minecraft:item/generated": { parent: "builtin/generated" } })
+    );
+
+    expect(resolved.generatedParent).toBe("builtin/generated");
+    expect(resolved.elements).toEqual([]);
+  });
+
+  test("reports missing parents and parent loops", () => {
+    expect(() => resolveJavaModel({ parent: "block/missing" }, "test", createLoader({}))).toThrow(
+      'Parent model "minecraft:block/missing" of "test" not found'
+    );
+    expect(() =>
+      resolveJavaModel(
+        { parent: "block/a" },
+        "minecraft:block/b",
+        createLoader({ "minecraft:block/a": { parent: "block/b" } })
+      )
+    ).toThrow("Parent loop in model chain: minecraft:block/b -> minecraft:block/a -> minecraft:block/b");
+  });
+});
+
+describe("resolveTextureVariable", () => {
+  test("follows references and adds the default namespace", () => {
+    expect(resolveTextureVariable("#a", { a: "#b", b: "block/stone" })).toBe("minecraft:block/stone");
+    expect(resolveTextureVariable("custom:block/stone", {})).toBe("custom:block/stone");
+  });
+
+  test("returns null for undefined variables and loops", () => {
+    expect(resolveTextureVariable("#missing", {})).toBeNull();
+    expect(resolveTextureVariable("#a", { a: "#b", b: "#a" })).toBeNull();
+  });
+});
+
+describe("getDefaultFaceUv", () => {
+  test("derives UVs from the element bounds", () => {
+    expect(getDefaultFaceUv("north", [2, 0, 3], [14, 8, 13])).toEqual([2, 8, 14, 16]);
+    expect(getDefaultFaceUv("up", [2, 0, 3], [14, 8, 13])).toEqual([2, 3, 14, 13]);
+    expect(getDefaultFaceUv("down", [2, 0, 3], [14, 8, 13])).toEqual([2, 3, 14, 13]);
+  });
+});
+
+describe("resource pack paths", () => {
+  test("maps resource locations to pack files", () => {
+    expect(getPackFile("/pack", "textures", "block/stone", "png")).toBe(
+      path.join("/pack", "assets", "minecraft", "textures", "block", "stone.png")
+    );
+  });
+
+  test("finds the pack of a model file", () => {
+    expect(findPackOfModelFile("C:\\packs\\test\\assets\\custom\\models\\block\\lamp.json")).toEqual({
+      pack: "C:/packs/test",
+      modelId: "custom:block/lamp",
+    });
+    expect(findPackOfModelFile("/tmp/lamp.json")).toBeNull();
+  });
+});
+
+describe("validateJavaModel", () => {
+  test("reports problems with their paths", () => {
+    expect(() =>
+      validateJavaModel({ elements: [{ from: [0, 0], to: [16, 16, 16] }] }, "block/broken")
+    ).toThrow('Invalid Java model "block/broken":\n- elements[0].from');
+  });
+});
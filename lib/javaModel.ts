@@ -0,0 +1,264 @@
+/// <reference types="three" />
+/// <reference types="blockbench-types" />
+
+/**
+ * Java Edition block/item model JSON: validation, `parent` inheritance and `#texture` variables.
+ * Models are looked up in a resource pack at `assets/<namespace>/models/<path>.json`.
+ */
+import { z } from "zod";
+import { formatSchemaIssues } from "@/lib/util";
+
+export const JAVA_FACE_DIRECTIONS = ["north", "east", "south", "west", "up", "down"] as const;
+export type JavaFaceDirection = (typeof JAVA_FACE_DIRECTIONS)[number];
+
+const vector3 = z.tuple([z.number(), z.number(), z.number()]);
+
+const faceSchema = z
+  .object({
+    uv: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+    texture: z.string(),
+    rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+    cullface: z.enum([...JAVA_FACE_DIRECTIONS, "bottom"]).optional(),
+    tintindex: z.number().int().optional(),
+  })
+  .passthrough();
+
+const elementSchema = z
+  .object({
+    name: z.string().optional(),
+    from: vector3,
+    to: vector3,
+    rotation: z
+      .object({
+        origin: vector3,
+        axis: z.enum(["x", "y", "z"]),
+        angle: z.number(),
+        rescale: z.boolean().optional(),
+      })
+      .passthrough()
+      .optional(),
+    shade: z.boolean().optional(),
+    faces: z.record(z.enum(JAVA_FACE_DIRECTIONS), faceSchema).optional(),
+  })
+  .passthrough();
+
+export const javaModelSchema = z
+  .object({
+    parent: z.string().optional(),
+    ambientocclusion: z.boolean().optional(),
+    textures: z.record(z.string()).optional(),
+    elements: z.array(elementSchema).optional(),
+    display: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export type JavaModel = z.infer<typeof javaModelSchema>;
+export type JavaElement = z.infer<typeof elementSchema>;
+
+/** Vanilla parents used by most simple block models, for packs that don't include them */
+const BUILTIN_PARENTS: Record<string, JavaModel> = {
+  "minecraft:block/block": {},
+  "minecraft:block/cube": {
+    parent: "block/block",
+    elements: [
+      {
+        from: [0, 0, 0],
+        to: [16, 16, 16],
+        faces: Object.fromEntries(
+          JAVA_FACE_DIRECTIONS.map((direction) => [
+            direction,
+            { texture: `#${direction}`, cullface: direction },
+          ])
+        ),
+      },
+    ],
+  },
+  "minecraft:block/cube_all": {
+    parent: "block/cube",
+    textures: {
+      particle: "#all",
+      down: "#all",
+      up: "#all",
+      north: "#all",
+      east: "#all",
+      south: "#all",
+      west: "#all",
+    },
+  },
+  "minecraft:block/cube_column": {
+    parent: "block/cube",
+    textures: {
+      particle: "#side",
+      down: "#end",
+      up: "#end",
+      north: "#side",
+      east: "#side",
+      south: "#side",
+      west: "#side",
+    },
+  },
+  "minecraft:block/cube_bottom_top": {
+    parent: "block/cube",
+    textures: {
+      particle: "#side",
+      down: "#bottom",
+      up: "#top",
+      north: "#side",
+      east: "#side",
+      south: "#side",
+      west: "#side",
+    },
+  },
+};
+
+/** Parents that are generated by the game and have no elements of their own */
+const GENERATED_PARENTS = ["builtin/generated", "builtin/entity", "minecraft:builtin/generated", "minecraft:builtin/entity"];
+
+export interface ResolvedJavaModel {
+  /** Model IDs from the imported model up to its root parent */
+  chain: string[];
+  elements: JavaElement[];
+  /** Texture variables with `#` references followed, mapped to resource locations */
+  textures: Record<string, string>;
+  ambientocclusion?: boolean;
+  /** Set when the chain ends in a parent generated by the game, e.g. `item/generated` */
+  generatedParent?: string;
+}
+
+/**
+ * Adds the default `minecraft` namespace to a resource location.
+ */
+export function normalizeResourceLocation(location: string): string {
+  return location.includes(":") ? location : `minecraft:${location}`;
+}
+
+/**
+ * Returns the file of a resource in a resource pack, e.g. `assets/minecraft/models/block/stone.json`.
+ * @param kind - Resource folder, e.g. "models" or "textures"
+ */
+export function getPackFile(pack: string, kind: string, location: string, extension: string): string {
+  const [namespace, path] = normalizeResourceLocation(location).split(":");
+  return PathModule.join(pack, "assets", namespace, kind, `${path}.${extension}`);
+}
+
+/**
+ * Returns the resource pack root and model ID of a model file inside a pack, if it is in one.
+ */
+export function findPackOfModelFile(file: string): { pack: string; modelId: string } | null {
+  const match = file.replace(/\\/g, "/").match(/^(.*)\/assets\/([^/]+)\/models\/(.+)\.json$/);
+  return match ? { pack: match[1], modelId: `${match[2]}:${match[3]}` } : null;
+}
+
+/**
+ * Validates parsed JSON as a Java block/item model.
+ * @param source - Name of the model used in error messages
+ * @throws Error listing every problem with its JSON path
+ */
+export function validateJavaModel(data: unknown, source: string): JavaModel {
+  const result = javaModelSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid Java model "${source}":\n${formatSchemaIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Follows `parent` references and merges the chain like the game does: the closest model with
+ * `elements` provides all elements, and texture variables of children override their parents.
+ * @param loadModel - Returns a parent model by ID, or null if it can't be found
+ */
+export function resolveJavaModel(
+  model: JavaModel,
+  modelId: string,
+  loadModel: (id: string) => JavaModel | null
+): ResolvedJavaModel {
+  const chain = [modelId];
+  const models = [model];
+  let generatedParent: string | undefined;
+
+  let current = model;
+  while (current.parent) {
+    if (GENERATED_PARENTS.includes(current.parent)) {
+      generatedParent = current.parent;
+      break;
+    }
+    const parentId = normalizeResourceLocation(current.parent);
+    if (chain.includes(parentId)) {
+      throw new Error(`Parent loop in model chain: ${[...chain, parentId].join(" -> ")}`);
+    }
+    const parent = loadModel(parentId) ?? BUILTIN_PARENTS[parentId];
+    if (!parent) {
+      throw new Error(
+        `Parent model "${parentId}" of "${chain[chain.length - 1]}" not found. Pass the resource pack folder that contains it, or extract the vanilla assets into the pack.`
+      );
+    }
+    chain.push(parentId);
+    models.push(parent);
+    current = parent;
+  }
+
+  // Children override the texture variables of their parents and are listed first
+  const variables: Record<string, string> = {};
+  for (const { textures } of models) {
+    for (const [name, value] of Object.entries(textures ?? {})) {
+      if (!(name in variables)) variables[name] = value;
+    }
+  }
+
+  const textures: Record<string, string> = {};
+  for (const name of Object.keys(variables)) {
+    const location = resolveTextureVariable(`#${name}`, variables);
+    if (location) textures[name] = location;
+  }
+
+  return {
+    chain,
+    elements: models.find(({ elements }) => elements)?.elements ?? [],
+    textures,
+    ambientocclusion: models.find(({ ambientocclusion }) => ambientocclusion !== undefined)?.ambientocclusion,
+    generatedParent,
+  };
+}
+
+/**
+ * Follows `#variable` references to a texture resource location.
+ * Returns null when a variable is undefined or the references form a loop.
+ */
+export function resolveTextureVariable(
+  reference: string,
+  variables: Record<string, string>
+): string | null {
+  const seen = new Set<string>();
+  let value = reference;
+  while (value.startsWith("#")) {
+    const name = value.slice(1);
+    if (seen.has(name) || !(name in variables)) return null;
+    seen.add(name);
+    value = variables[name];
+  }
+  return normalizeResourceLocation(value);
+}
+
+/**
+ * Returns the UV the game uses for a face without an explicit `uv`, based on the element bounds.
+ */
+export function getDefaultFaceUv(
+  direction: JavaFaceDirection,
+  [x1, y1, z1]: [number, number, number],
+  [x2, y2, z2]: [number, number, number]
+): [number, number, number, number] {
+  switch (direction) {
+    case "down":
+      return [x1, 16 - z2, x2, 16 - z1];
+    case "up":
+      return [x1, z1, x2, z2];
+    case "north":
+      return [16 - x2, 16 - y2, 16 - x1, 16 - y1];
+    case "south":
+      return [x1, 16 - y2, x2, 16 - y1];
+    case "west":
+      return [z1, 16 - y2, z2, 16 - y1];
+    case "east":
+      return [16 - z2, 16 - y2, 16 - z1, 16 - y1];
+  }
+}
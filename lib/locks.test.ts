@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  acquireLocks,
+  getLock,
+  getLocks,
+  locksTeardown,
+  releaseLocks,
+  releaseSessionLocks,
+  subscribeLocks,
+} from "@/lib/locks";
+
+const cube = { uuid: "cube-uuid", name: "cube", type: "element" as const };
+const bone = { uuid: "bone-uuid", name: "bone", type: "group" as const };
+
+afterEach(() => {
+  locksTeardown();
+});
+
+describe("acquireLocks", () => {
+  test("locks all targets or none", () => {
+    acquireLocks([bone], "session-b");
+
+    expect(() => acquireLocks([cube, bone], "session-a")).toThrow('"bone" is locked by');
+    expect(getLock(cube.uuid)).toBeUndefined();
+  });
+
+  test("refreshes locks the session already holds", () => {
+    const [first] = acquireLocks([cube], "session-a", "painting");
+    const [second] = acquireLocks([cube], "session-a", "resizing");
+
+    expect(second.acquiredAt).toBe(first.acquiredAt);
+    expect(getLock(cube.uuid)?.note).toBe("resizing");
+  });
+});
+
+describe("releaseLocks", () => {
+  test("releases the session's locks and notifies listeners", () => {
+    acquireLocks([cube, bone], "session-a");
+    const updates: number[] = [];
+    subscribeLocks((locks) => updates.push(locks.length));
+
+    const released = releaseLocks([cube.uuid, "unknown"], "session-a");
+
+    expect(released.map(({ uuid }) => uuid)).toEqual([cube.uuid]);
+    expect(getLocks().map(({ uuid }) => uuid)).toEqual([bone.uuid]);
+    expect(updates).toEqual([2, 1]);
+  });
+
+  test("releases nothing when another session holds one of the locks", () => {
+    acquireLocks([cube], "session-a");
+    acquireLocks([bone], "session-b");
+    const updates: number[] = [];
+    subscribeLocks((locks) => updates.push(locks.length));
+
+    expect(() => releaseLocks([cube.uuid, bone.uuid], "session-a")).toThrow(
+      '"bone" is locked by'
+    );
+    expect(getLock(cube.uuid)?.sessionId).toBe("session-a");
+    expect(getLock(bone.uuid)?.sessionId).toBe("session-b");
+    expect(updates).toEqual([2]);
+  });
+
+  test("releases any holder's locks without a session", () => {
+    acquireLocks([cube], "session-a");
+    acquireLocks([bone], "session-b");
+
+    expect(releaseLocks([cube.uuid, bone.uuid])).toHaveLength(2);
+    expect(getLocks()).toEqual([]);
+  });
+
+  test("releases every lock of a session", () => {
+    acquireLocks([cube], "session-a");
+    acquireLocks([bone], "session-b");
+
+    releaseSessionLocks("session-a");
+
+    expect(getLocks().map(({ uuid }) => uuid)).toEqual([bone.uuid]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Advisory locks that let an agent claim an element, bone or texture while it works on it.
+ *
+ * Locks are not enforced by other tools. They only keep other sessions from claiming the
+ * same target and show up in the MCP panel. A session's locks are released when it ends.
+ */
+import { sessionManager, type Session } from "@/lib/sessions";
+
+export type LockTargetType = "element" | "group" | "texture";
+
+export interface LockTarget {
+  uuid: string;
+  name: string;
+  type: LockTargetType;
+}
+
+export interface ElementLock extends LockTarget {
+  sessionId: string;
+  clientName?: string;
+  acquiredAt: Date;
+  /** What the holder is doing with the target */
+  note?: string;
+}
+
+type LockListener = (locks: ElementLock[]) => void;
+
+const locks: Map<string, ElementLock> = new Map();
+const listeners: Set<LockListener> = new Set();
+
+let unsubscribeSessions: (() => void) | undefined;
+
+function describeHolder(lock: ElementLock): string {
+  return lock.clientName || lock.sessionId.slice(0, 8) + "...";
+}
+
+/**
+ * Returns all locks, oldest first.
+ */
+export function getLocks(): ElementLock[] {
+  return [...locks.values()];
+}
+
+export function getLock(uuid: string): ElementLock | undefined {
+  return locks.get(uuid);
+}
+
+/**
+ * Claims targets for a session. Either all targets are locked or none.
+ * Targets the session already holds are refreshed.
+ * @throws If another session holds one of the targets.
+ */
+export function acquireLocks(targets: LockTarget[], sessionId: string, note?: string): ElementLock[] {
+  for (const target of targets) {
+    const existing = locks.get(target.uuid);
+    if (existing && existing.sessionId !== sessionId) {
+      throw new Error(
+        `"${target.name}" is locked by ${describeHolder(existing)} since ${existing.acquiredAt.toISOString()}${existing.note ? ` (${existing.note})` : ""}. Work on something else or ask the user.`
+      );
+    }
+  }
+
+  const clientName = sessionManager.get(sessionId)?.clientName;
+  const acquired = targets.map((target) => {
+    const lock: ElementLock = {
+      ...target,
+      sessionId,
+      clientName,
+      acquiredAt: locks.get(target.uuid)?.acquiredAt ?? new Date(),
+      note,
+    };
+    locks.set(target.uuid, lock);
+    return lock;
+  });
+
+  notifyListeners();
+  return acquired;
+}
+
+/**
+ * Releases locks by target UUID. Either all locks are released or none.
+ * Without a session, any holder's lock is released (used by the panel).
+ * @returns The released locks
+ * @throws If a target is locked by a different session.
+ */
+export function releaseLocks(uuids: string[], sessionId?: string): ElementLock[] {
+  const released = uuids
+    .map((uuid) => locks.get(uuid))
+    .filter((lock): lock is ElementLock => lock !== undefined);
+
+  for (const lock of released) {
+    if (sessionId && lock.sessionId !== sessionId) {
+      throw new Error(`"${lock.name}" is locked by ${describeHolder(lock)}, not by this session.`);
+    }
+  }
+
+  released.forEach(({ uuid }) => locks.delete(uuid));
+  if (released.length > 0) notifyListeners();
+  return released;
+}
+
+/**
+ * Releases every lock a session holds.
+ * @returns The released locks
+ */
+export function releaseSessionLocks(sessionId: string): ElementLock[] {
+  const uuids = getLocks()
+    .filter((lock) => lock.sessionId === sessionId)
+    .map(({ uuid }) => uuid);
+  return releaseLocks(uuids);
+}
+
+/**
+ * Subscribes to lock changes. The listener is called immediately with the current locks.
+ */
+export function subscribeLocks(listener: LockListener): () => void {
+  listeners.add(listener);
+  listener(getLocks());
+  return () => listeners.delete(listener);
+}
+
+function notifyListeners(): void {
+  const current = getLocks();
+  listeners.forEach((listener) => {
+    try {
+      listener(current);
+    } catch (error) {
+      console.error("[MCP] Lock listener error:", error);
+    }
+  });
+}
+
+/**
+ * Starts releasing the locks of sessions that end.
+ */
+export function locksSetup(): void {
+  if (unsubscribeSessions) return;
+
+  unsubscribeSessions = sessionManager.subscribe((sessions: Session[]) => {
+    const active = new Set(sessions.map(({ id }) => id));
+    const stale = getLocks().filter((lock) => !active.has(lock.sessionId));
+    if (stale.length > 0) {
+      releaseLocks(stale.map(({ uuid }) => uuid));
+    }
+  });
+}
+
+export function locksTeardown(): void {
+  unsubscribeSessions?.();
+  unsubscribeSessions = undefined;
+  locks.clear();
+  listeners.clear();
+}
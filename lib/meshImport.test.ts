@@ -0,0 +1,341 @@
+import { describe, expect, test } from "bun:test";
+import { decodeDataUri, parseGltf, parseObj, type MeshFileContext } from "@/lib/meshImport";
+
+/**
+ * Serves files from memory, keyed by their path relative to the imported file.
+ */
+function createContext(files: Record<string, string | Uint8Array> = {}): MeshFileContext {
+  return {
+    resolvePath: (uri) => (uri in files ? `/files/${uri}` : null),
+    readFile: (path) => {
+      const file = files[path.replace("/files/", "")];
+      return typeof file === "string" ? new TextEncoder().encode(file) : file;
+    },
+  };
+}
+
+describe("parseObj", () => {
+  const obj = [
+    "mtllib box.mtl",
+    "o box",
+    "v 0 0 0",
+    "v 1 0 0",
+    "v 1 1 0",
+    "v 0 1 0",
+    "v 0.5 1.5 0",
+    "vt 0 0",
+    "vt 1 0",
+    "vt 1 1",
+    "usemtl red",
+    "f 1/1 2/2 3/3",
+    "f -5/1/1 -4/2/1 -3/3/1 -2 -1 # pentagon",
+    "o other",
+    "usemtl blue",
+    "f 1 2 4",
+  ].join("\n");
+  const mtl = ["newmtl red", "Kd 1 0 0", "map_Kd -s 1 1 1 textures/red.png"].join("\n");
+
+  test("splits objects and keeps only their own vertices", () => {
+    const { objects } = parseObj(obj, createContext({ "box.mtl": mtl, "textures/red.png": "" }));
+
+    expect(objects.map(({ name }) => name)).toEqual(["box", "other"]);
+    expect(objects[0].positions).toHaveLength(5);
+    expect(objects[1].positions).toEqual([
+      [0, 0, 0],
+      [1, 0, 0],
+      [0, 1, 0],
+    ]);
+    expect(objects[1].faces[0].vertices).toEqual([0, 1, 2]);
+  });
+
+  test("flips V and resolves negative indices", () => {
+    const { objects } = parseObj(obj, createContext());
+
+    expect(objects[0].faces[0].uvs).toEqual([
+      [0, 1],
+      [1, 1],
+      [1, 0],
+    ]);
+    expect(objects[0].faces[1].vertices).toEqual([0, 1, 2]);
+  });
+
+  test("splits faces with more than 4 vertices into triangles", () => {
+    const { objects } = parseObj(obj, createContext());
+
+    expect(objects[0].faces.slice(1).map(({ vertices }) => vertices)).toEqual([
+      [0, 1, 2],
+      [0, 2, 3],
+      [0, 3, 4],
+    ]);
+  });
+
+  test("reads materials from MTL files", () => {
+    const { materials, warnings, objects } = parseObj(
+      obj,
+      createContext({ "box.mtl": mtl, "textures/red.png": "" })
+    );
+
+    expect(materials).toEqual([
+      { name: "red", image: { path: "/files/textures/red.png" } },
+      { name: "blue", image: null },
+    ]);
+    expect(objects[1].faces[0].material).toBe(1);
+    expect(warnings).toEqual(['Material "blue" is not defined in any MTL file.']);
+  });
+
+  test("warns about missing material libraries and textures", () => {
+    expect(parseObj(obj, createContext()).warnings).toContain('Material library "box.mtl" not found.');
+    expect(parseObj(obj, createContext({ "box.mtl": mtl })).warnings).toContain(
+      'Texture "textures/red.png" of material "red" not found.'
+    );
+  });
+
+  test("rejects out-of-range vertex indices", () => {
+    expect(() => parseObj("v 0 0 0\nf 1 2 3", createContext())).toThrow(
+      "Line 2: vertex index 2 is out of range."
+    );
+  });
+});
+
+/**
+ * Builds a glTF file with one triangle whose buffer is embedded as a data URI.
+ */
+function createTriangleGltf(overrides: Record<string, unknown> = {}) {
+  const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  const uvs = new Float32Array([0, 0, 1, 0, 0, 1]);
+  const indices = new Uint16Array([0, 1, 2, 0]);
+  const buffer = Buffer.concat([
+    Buffer.from(positions.buffer),
+    Buffer.from(uvs.buffer),
+    Buffer.from(indices.buffer),
+  ]);
+
+  return {
+    asset: { version: "2.0" },
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: "root", translation: [10, 0, 0], rotation: [0, Math.SQRT1_2, 0, Math.SQRT1_2], children: [1] }, { mesh: 0 }],
+    meshes: [{ name: "triangle", primitives: [{ attributes: { POSITION: 0, TEXCOORD_0: 1 }, indices: 2, material: 0 }] }],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 3, type: "VEC3" },
+      { bufferView: 1, componentType: 5126, count: 3, type: "VEC2" },
+      { bufferView: 2, componentType: 5123, count: 3, type: "SCALAR" },
+    ],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: 36 },
+      { buffer: 0, byteOffset: 36, byteLength: 24 },
+      { buffer: 0, byteOffset: 60, byteLength: 6 },
+    ],
+    buffers: [{ byteLength: buffer.length, uri: `data:application/octet-stream;base64,${buffer.toString("base64")}` }],
+    materials: [{ name: "paint", pbrMetallicRoughness: { baseColorTexture: { index: 0 } } }],
+    textures: [{ source: 0 }],
+    images: [{ uri: "paint.png" }],
+    ...overrides,
+  };
+}
+
+function encodeJson(value: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(value));
+}
+
+/**
+ * Packs a glTF JSON and binary buffer into a GLB container.
+ */
+function createGlb(json: unknown, bin: Uint8Array): Uint8Array {
+  const pad = (data: Uint8Array, byte: number) =>
+    Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4, byte)]);
+  const jsonChunk = pad(encodeJson(json), 0x20);
+  const binChunk = pad(bin, 0);
+  const chunkHeader = (length: number, type: number) => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(length, 0);
+    header.writeUInt32LE(type, 4);
+    return header;
+  };
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(0x46546c67, 0);
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(12 + 8 + jsonChunk.length + 8 + binChunk.length, 8);
+
+  return new Uint8Array(
+    Buffer.concat([header, chunkHeader(jsonChunk.length, 0x4e4f534a), jsonChunk, chunkHeader(binChunk.length, 0x004e4942), binChunk])
+  );
+}
+
+function round(values: number[][]) {
+  return values.map((value) => value.map((component) => Math.round(component * 1000) / 1000 + 0));
+}
+
+describe("parseGltf", () => {
+  test("applies node transforms and reads UVs and materials", () => {
+    const { objects, materials, warnings } = parseGltf(
+      encodeJson(createTriangleGltf()),
+      createContext({ "paint.png": "" })
+    );
+
+    expect(objects).toHaveLength(1);
+    expect(objects[0].name).toBe("triangle");
+    // Rotated 90 degrees around Y, then moved 10 along X
+    expect(round(objects[0].positions)).toEqual([
+      [10, 0, 0],
+      [10, 0, -1],
+      [10, 1, 0],
+    ]);
+    expect(objects[0].faces).toEqual([
+      { vertices: [0, 1, 2], uvs: [[0, 0], [1, 0], [0, 1]], material: 0 },
+    ]);
+    expect(materials).toEqual([{ name: "paint", image: { path: "/files/paint.png" } }]);
+    expect(warnings).toEqual([]);
+  });
+
+  test("reads GLB files with their binary chunk", () => {
+    const gltf = createTriangleGltf();
+    const bin = decodeDataUri(gltf.buffers[0].uri).data;
+    const glb = createGlb(
+      { ...gltf, buffers: [{ byteLength: bin.length }], images: [{ bufferView: 1, mimeType: "image/png" }] },
+      bin
+    );
+
+    const { objects } = parseGltf(glb, createContext());
+
+    expect(objects[0].positions).toHaveLength(3);
+  });
+
+  test("embeds images stored in buffer views", () => {
+    const gltf = createTriangleGltf({ images: [{ bufferView: 1, mimeType: "image/png" }] });
+
+    const { materials } = parseGltf(encodeJson(gltf), createContext());
+
+    expect(materials[0].image).toEqual({ dataUrl: expect.stringMatching(/^data:image\/png;base64,/) });
+  });
+
+  test("skips primitives that aren't triangles", () => {
+    const gltf = createTriangleGltf();
+    gltf.meshes[0].primitives.push({ ...gltf.meshes[0].primitives[0], mode: 1 } as never);
+
+    const { objects, warnings } = parseGltf(encodeJson(gltf), createContext({ "paint.png": "" }));
+
+    expect(objects[0].faces).toHaveLength(1);
+    expect(warnings).toEqual(['Skipped primitive 1 of "triangle": only triangles are supported.']);
+  });
+
+  test("applies sparse accessor values", () => {
+    const gltf = createTriangleGltf();
+    // Replace vertex 2 with (0, 2, 0): index 2 as an unsigned byte, then three floats
+    const sparse = Buffer.concat([Buffer.from([2, 0, 0, 0]), Buffer.from(new Float32Array([0, 2, 0]).buffer)]);
+    const sparseIndex = gltf.buffers.length;
+    gltf.buffers.push({ byteLength: sparse.length, uri: `data:application/octet-stream;base64,${sparse.toString("base64")}` });
+    gltf.bufferViews.push(
+      { buffer: sparseIndex, byteOffset: 0, byteLength: 1 },
+      { buffer: sparseIndex, byteOffset: 4, byteLength: 12 }
+    );
+    Object.assign(gltf.accessors[0], {
+      sparse: {
+        count: 1,
+        indices: { bufferView: 3, componentType: 5121 },
+        values: { bufferView: 4 },
+      },
+    });
+    gltf.nodes = [{ mesh: 0 }] as typeof gltf.nodes;
+
+    const { objects } = parseGltf(encodeJson(gltf), createContext({ "paint.png": "" }));
+
+    expect(objects[0].positions).toEqual([
+      [0, 0, 0],
+      [1, 0, 0],
+      [0, 2, 0],
+    ]);
+  });
+
+  test("treats sparse accessors without a buffer view as zeros with replacements", () => {
+    const gltf = createTriangleGltf();
+    Object.assign(gltf.accessors[0], {
+      bufferView: undefined,
+      sparse: { count: 1, indices: { bufferView: 2, componentType: 5123 }, values: { bufferView: 0 } },
+    });
+    gltf.nodes = [{ mesh: 0 }] as typeof gltf.nodes;
+
+    const { objects } = parseGltf(encodeJson(gltf), createContext({ "paint.png": "" }));
+
+    // Index 0 of the index buffer view points at element 0, which gets the first position
+    expect(objects[0].positions).toEqual([
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ]);
+  });
+
+  test("rejects references to missing items", () => {
+    const context = createContext({ "paint.png": "" });
+
+    expect(() => parseGltf(encodeJson(createTriangleGltf({ scenes: [{ nodes: [5] }] })), context)).toThrow(
+      "glTF node 5 does not exist."
+    );
+    const badMesh = createTriangleGltf();
+    badMesh.nodes[1] = { mesh: 3 } as never;
+    expect(() => parseGltf(encodeJson(badMesh), context)).toThrow("glTF mesh 3 does not exist.");
+
+    const badAccessor = createTriangleGltf();
+    badAccessor.meshes[0].primitives[0].attributes.POSITION = 9;
+    expect(() => parseGltf(encodeJson(badAccessor), context)).toThrow("glTF accessor 9 does not exist.");
+
+    const badMaterial = createTriangleGltf();
+    badMaterial.meshes[0].primitives[0].material = 4;
+    expect(() => parseGltf(encodeJson(badMaterial), context)).toThrow("glTF material 4 does not exist.");
+  });
+
+  test("rejects data outside of its buffer view and out-of-range vertex indices", () => {
+    const context = createContext({ "paint.png": "" });
+
+    const longAccessor = createTriangleGltf();
+    longAccessor.accessors[0].count = 4;
+    expect(() => parseGltf(encodeJson(longAccessor), context)).toThrow(
+      "glTF data reaches past the end of buffer view 0."
+    );
+
+    const longView = createTriangleGltf();
+    longView.bufferViews[2].byteLength = 100;
+    expect(() => parseGltf(encodeJson(longView), context)).toThrow(
+      "glTF buffer view 2 reaches past the end of buffer 0."
+    );
+
+    const badIndex = createTriangleGltf();
+    const indices = Buffer.from(new Uint16Array([0, 1, 7]).buffer);
+    badIndex.buffers.push({ byteLength: indices.length, uri: `data:application/octet-stream;base64,${indices.toString("base64")}` });
+    badIndex.bufferViews[2] = { buffer: 1, byteOffset: 0, byteLength: indices.length };
+    expect(() => parseGltf(encodeJson(badIndex), context)).toThrow('Primitive 0 of "triangle" uses vertex');
+  });
+
+  test("rejects cyclic and shared nodes", () => {
+    const context = createContext({ "paint.png": "" });
+
+    const cyclic = createTriangleGltf();
+    cyclic.nodes[1] = { mesh: 0, children: [0] } as never;
+    expect(() => parseGltf(encodeJson(cyclic), context)).toThrow(
+      "glTF node 0 has more than one parent or is part of a cycle."
+    );
+
+    const shared = createTriangleGltf({ scenes: [{ nodes: [0, 1] }] });
+    expect(() => parseGltf(encodeJson(shared), context)).toThrow(
+      "glTF node 1 has more than one parent or is part of a cycle."
+    );
+  });
+
+  test("rejects glTF 1.0 files and missing buffers", () => {
+    expect(() => parseGltf(encodeJson({ asset: { version: "1.0" } }), createContext())).toThrow(
+      'Unsupported glTF version "1.0"'
+    );
+    expect(() =>
+      parseGltf(encodeJson(createTriangleGltf({ buffers: [{ byteLength: 66, uri: "missing.bin" }] })), createContext())
+    ).toThrow('Buffer 0 "missing.bin" not found.');
+  });
+});
+
+describe("decodeDataUri", () => {
+  test("decodes base64 and URL-encoded data", () => {
+    expect(decodeDataUri("data:text/plain;base64,aGk=")).toEqual({
+      mimeType: "text/plain",
+      data: new TextEncoder().encode("hi"),
+    });
+    expect(new TextDecoder().decode(decodeDataUri("data:,a%20b").data)).toBe("a b");
+  });
+});
@@ -0,0 +1,614 @@
+/**
+ * Parses OBJ (with MTL) and glTF 2.0 / GLB files into plain mesh data for the `import_mesh_file`
+ * tool. Positions keep the file's units with Y up, UVs are normalized with V pointing down like
+ * Blockbench's, and faces go counter-clockwise around their front side.
+ */
+
+type Vector2 = [number, number];
+type Vector3 = [number, number, number];
+/** Column-major 4x4 matrix, as glTF stores them */
+type Matrix4 = number[];
+
+const IDENTITY_MATRIX: Matrix4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+export interface ImportedMaterial {
+  name: string;
+  /** Base color image, as a local file or an embedded image */
+  image: { path: string } | { dataUrl: string } | null;
+}
+
+export interface ImportedFace {
+  /** Indices into the object's positions */
+  vertices: number[];
+  uvs: (Vector2 | null)[];
+  /** Index into the file's materials */
+  material: number | null;
+}
+
+export interface ImportedObject {
+  name: string;
+  positions: Vector3[];
+  faces: ImportedFace[];
+}
+
+export interface ImportedMeshFile {
+  objects: ImportedObject[];
+  materials: ImportedMaterial[];
+  warnings: string[];
+}
+
+export interface MeshFileContext {
+  /** Resolves a URI relative to the imported file to an existing local file, or returns null */
+  resolvePath(uri: string): string | null;
+  readFile(path: string): Uint8Array;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = "";
+  // Chunked so large images don't exceed the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Decodes a base64 or URL-encoded data URI.
+ */
+export function decodeDataUri(uri: string): { mimeType: string; data: Uint8Array } {
+  const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new Error("Invalid data URI.");
+  }
+  const [, mimeType, , base64, payload] = match;
+  const data = base64
+    ? decodeBase64(payload)
+    : new TextEncoder().encode(decodeURIComponent(payload));
+  return { mimeType: mimeType || "application/octet-stream", data };
+}
+
+/**
+ * Returns the directory part of a relative URI including the trailing slash, e.g. "textures/".
+ */
+function getUriDirectory(uri: string): string {
+  return uri.slice(0, uri.replace(/\\/g, "/").lastIndexOf("/") + 1);
+}
+
+/**
+ * Splits a face into triangles around its first vertex when it has more than 4 vertices,
+ * since Blockbench mesh faces are triangles or quads.
+ */
+function triangulate(face: ImportedFace): ImportedFace[] {
+  if (face.vertices.length <= 4) return [face];
+  const triangles: ImportedFace[] = [];
+  for (let i = 1; i < face.vertices.length - 1; i++) {
+    triangles.push({
+      vertices: [face.vertices[0], face.vertices[i], face.vertices[i + 1]],
+      uvs: [face.uvs[0], face.uvs[i], face.uvs[i + 1]],
+      material: face.material,
+    });
+  }
+  return triangles;
+}
+
+function parseMtl(
+  text: string,
+  mtlUri: string,
+  context: MeshFileContext,
+  materials: ImportedMaterial[],
+  warnings: string[]
+) {
+  let material: ImportedMaterial | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const [keyword, ...args] = line.trim().split(/\s+/);
+    if (keyword === "newmtl") {
+      material = { name: args.join(" "), image: null };
+      materials.push(material);
+    } else if (keyword === "map_Kd" && material && args.length) {
+      // Options like "-s 1 1 1" come before the file name
+      const file = args[args.length - 1];
+      const path = context.resolvePath(getUriDirectory(mtlUri) + file);
+      if (path) {
+        material.image = { path };
+      } else {
+        warnings.push(`Texture "${file}" of material "${material.name}" not found.`);
+      }
+    }
+  }
+}
+
+/**
+ * Parses a Wavefront OBJ file. Each `o` or `g` statement starts a new object, and materials are
+ * read from the MTL files named by `mtllib`. Normals are ignored.
+ */
+export function parseObj(text: string, context: MeshFileContext): ImportedMeshFile {
+  const warnings: string[] = [];
+  const materials: ImportedMaterial[] = [];
+  const objects: ImportedObject[] = [];
+  const positions: Vector3[] = [];
+  const uvs: Vector2[] = [];
+
+  let current: ImportedObject | null = null;
+  // Maps file-wide position indices to indices in the current object
+  let vertexMap = new Map<number, number>();
+  let material: number | null = null;
+
+  const startObject = (name: string) => {
+    current = { name, positions: [], faces: [] };
+    vertexMap = new Map();
+    objects.push(current);
+    return current;
+  };
+
+  const findMaterial = (name: string) => {
+    let index = materials.findIndex((item) => item.name === name);
+    if (index === -1) {
+      warnings.push(`Material "${name}" is not defined in any MTL file.`);
+      index = materials.push({ name, image: null }) - 1;
+    }
+    return index;
+  };
+
+  // Negative indices count back from the last element read so far
+  const toIndex = (value: string, count: number) => {
+    const index = parseInt(value, 10);
+    return index < 0 ? count + index : index - 1;
+  };
+
+  for (const [lineIndex, rawLine] of text.split(/\r?\n/).entries()) {
+    const line = rawLine.replace(/#.*/, "").trim();
+    if (!line) continue;
+    const [keyword, ...args] = line.split(/\s+/);
+
+    switch (keyword) {
+      case "v":
+        positions.push([Number(args[0]), Number(args[1]), Number(args[2])]);
+        break;
+      case "vt":
+        uvs.push([Number(args[0]), 1 - Number(args[1] ?? 0)]);
+        break;
+      case "o":
+      case "g":
+        startObject(args.join(" ") || `object_${objects.length}`);
+        break;
+      case "usemtl":
+        material = findMaterial(args.join(" "));
+        break;
+      case "mtllib": {
+        const uri = args.join(" ");
+        const path = context.resolvePath(uri);
+        if (path) {
+          parseMtl(new TextDecoder().decode(context.readFile(path)), uri, context, materials, warnings);
+        } else {
+          warnings.push(`Material library "${uri}" not found.`);
+        }
+        break;
+      }
+      case "f": {
+        const object: ImportedObject = current ?? startObject("object");
+        const face: ImportedFace = { vertices: [], uvs: [], material };
+        for (const corner of args) {
+          const [v, vt] = corner.split("/");
+          const position = toIndex(v, positions.length);
+          if (!positions[position]) {
+            throw new Error(`Line ${lineIndex + 1}: vertex index ${v} is out of range.`);
+          }
+          if (!vertexMap.has(position)) {
+            vertexMap.set(position, object.positions.push(positions[position]) - 1);
+          }
+          face.vertices.push(vertexMap.get(position)!);
+          face.uvs.push(vt ? uvs[toIndex(vt, uvs.length)] ?? null : null);
+        }
+        if (face.vertices.length >= 3) {
+          object.faces.push(...triangulate(face));
+        }
+        break;
+      }
+    }
+  }
+
+  return { objects: objects.filter(({ faces }) => faces.length > 0), materials, warnings };
+}
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_COUNTS: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT4: 16,
+};
+
+/** Byte size, DataView reader and divisor for normalized values, by accessor component type */
+const COMPONENT_TYPES: Record<number, [number, (view: DataView, offset: number) => number, number]> = {
+  5120: [1, (view, offset) => view.getInt8(offset), 127],
+  5121: [1, (view, offset) => view.getUint8(offset), 255],
+  5122: [2, (view, offset) => view.getInt16(offset, true), 32767],
+  5123: [2, (view, offset) => view.getUint16(offset, true), 65535],
+  5125: [4, (view, offset) => view.getUint32(offset, true), 4294967295],
+  5126: [4, (view, offset) => view.getFloat32(offset, true), 1],
+};
+
+/** Primitive mode for triangle lists, the default */
+const GLTF_TRIANGLES = 4;
+
+interface GltfNode {
+  name?: string;
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  /** Values that replace some elements of the accessor, or of all zeros without a buffer view */
+  sparse?: {
+    count: number;
+    indices: { bufferView: number; byteOffset?: number; componentType: number };
+    values: { bufferView: number; byteOffset?: number };
+  };
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfImage {
+  uri?: string;
+  bufferView?: number;
+  mimeType?: string;
+}
+
+interface Gltf {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { name?: string; primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { uri?: string; byteLength: number }[];
+  materials?: {
+    name?: string;
+    pbrMetallicRoughness?: { baseColorTexture?: { index: number } };
+  }[];
+  textures?: { source?: number }[];
+  images?: GltfImage[];
+}
+
+function multiplyMatrices(a: Matrix4, b: Matrix4): Matrix4 {
+  const result = new Array(16).fill(0);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) {
+        result[column * 4 + row] += a[k * 4 + row] * b[column * 4 + k];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds a node matrix from translation, rotation quaternion and scale.
+ */
+function composeMatrix([tx, ty, tz]: number[], [x, y, z, w]: number[], [sx, sy, sz]: number[]): Matrix4 {
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+}
+
+function transformPoint(m: Matrix4, [x, y, z]: number[]): Vector3 {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+/**
+ * Splits a GLB container into its JSON and binary chunks.
+ */
+function readGlb(data: Uint8Array): { json: string; bin: Uint8Array | null } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let json: string | null = null;
+  let bin: Uint8Array | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === GLB_CHUNK_JSON) json = new TextDecoder().decode(chunk);
+    else if (type === GLB_CHUNK_BIN) bin ??= chunk;
+    offset += 8 + length;
+  }
+
+  if (json === null) {
+    throw new Error("GLB file has no JSON chunk.");
+  }
+  return { json, bin };
+}
+
+/**
+ * Parses a glTF 2.0 file, either as JSON or as binary GLB. Every node with a mesh becomes an
+ * object with the node's world transform applied. Only triangle primitives are imported.
+ */
+export function parseGltf(data: Uint8Array, context: MeshFileContext): ImportedMeshFile {
+  const warnings: string[] = [];
+  const isGlb =
+    data.byteLength >= 12 &&
+    new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === GLB_MAGIC;
+  const { json, bin } = isGlb ? readGlb(data) : { json: new TextDecoder().decode(data), bin: null };
+
+  let gltf: Gltf;
+  try {
+    gltf = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid glTF JSON: ${(error as Error).message}`);
+  }
+  if (!gltf.asset?.version?.startsWith("2")) {
+    throw new Error(`Unsupported glTF version "${gltf.asset?.version}". Only glTF 2.0 is supported.`);
+  }
+
+  /**
+   * Returns an item of a top-level glTF array, so broken references fail with a clear error.
+   */
+  const getItem = <T>(items: T[] | undefined, index: number, kind: string): T => {
+    const item = Number.isInteger(index) ? items?.[index] : undefined;
+    if (item === undefined) {
+      throw new Error(`glTF ${kind} ${index} does not exist.`);
+    }
+    return item;
+  };
+
+  const buffers = new Map<number, Uint8Array>();
+  const getBuffer = (index: number): Uint8Array => {
+    if (!buffers.has(index)) {
+      const uri = getItem(gltf.buffers, index, "buffer").uri;
+      let buffer: Uint8Array | null = null;
+      if (uri === undefined) {
+        buffer = bin;
+      } else if (uri.startsWith("data:")) {
+        buffer = decodeDataUri(uri).data;
+      } else {
+        const path = context.resolvePath(decodeURIComponent(uri));
+        buffer = path ? context.readFile(path) : null;
+      }
+      if (!buffer) {
+        throw new Error(`Buffer ${index}${uri ? ` "${uri}"` : ""} not found.`);
+      }
+      buffers.set(index, buffer);
+    }
+    return buffers.get(index)!;
+  };
+
+  const getBufferViewData = (index: number): Uint8Array => {
+    const bufferView = getItem(gltf.bufferViews, index, "buffer view");
+    const buffer = getBuffer(bufferView.buffer);
+    const offset = bufferView.byteOffset ?? 0;
+    if (offset + bufferView.byteLength > buffer.byteLength) {
+      throw new Error(`glTF buffer view ${index} reaches past the end of buffer ${bufferView.buffer}.`);
+    }
+    return buffer.subarray(offset, offset + bufferView.byteLength);
+  };
+
+  /**
+   * Reads `count` elements of `components` values each from a buffer view.
+   * @param stride - Bytes between elements. Defaults to tightly packed.
+   */
+  const readElements = (
+    bufferViewIndex: number,
+    byteOffset: number,
+    count: number,
+    componentType: number,
+    components: number,
+    normalized: boolean,
+    stride?: number
+  ): number[][] => {
+    const componentInfo = COMPONENT_TYPES[componentType];
+    if (!componentInfo) {
+      throw new Error(`Unsupported glTF component type ${componentType}.`);
+    }
+    const [size, read, max] = componentInfo;
+    const divisor = normalized ? max : 1;
+    const elementStride = stride ?? size * components;
+
+    const bytes = getBufferViewData(bufferViewIndex);
+    if (count > 0 && byteOffset + (count - 1) * elementStride + size * components > bytes.byteLength) {
+      throw new Error(`glTF data reaches past the end of buffer view ${bufferViewIndex}.`);
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const values: number[][] = [];
+    for (let i = 0; i < count; i++) {
+      const offset = byteOffset + i * elementStride;
+      const element: number[] = [];
+      for (let c = 0; c < components; c++) {
+        element.push(read(view, offset + c * size) / divisor);
+      }
+      values.push(element);
+    }
+    return values;
+  };
+
+  const readAccessor = (index: number): number[][] => {
+    const accessor = getItem(gltf.accessors, index, "accessor");
+    const components = COMPONENT_COUNTS[accessor.type];
+    if (!components) {
+      throw new Error(`Unsupported glTF accessor type "${accessor.type}".`);
+    }
+    const normalized = accessor.normalized ?? false;
+
+    // Accessors without a buffer view start out as zeros
+    const values =
+      accessor.bufferView === undefined
+        ? Array.from({ length: accessor.count }, () => new Array(components).fill(0))
+        : readElements(
+            accessor.bufferView,
+            accessor.byteOffset ?? 0,
+            accessor.count,
+            accessor.componentType,
+            components,
+            normalized,
+            getItem(gltf.bufferViews, accessor.bufferView, "buffer view").byteStride
+          );
+
+    if (accessor.sparse) {
+      const { count, indices, values: sparseValues } = accessor.sparse;
+      const targets = readElements(indices.bufferView, indices.byteOffset ?? 0, count, indices.componentType, 1, false);
+      const replacements = readElements(
+        sparseValues.bufferView,
+        sparseValues.byteOffset ?? 0,
+        count,
+        accessor.componentType,
+        components,
+        normalized
+      );
+      targets.forEach(([target], i) => {
+        if (target >= values.length) {
+          throw new Error(`Sparse index ${target} of glTF accessor ${index} is out of range.`);
+        }
+        values[target] = replacements[i];
+      });
+    }
+    return values;
+  };
+
+  const getImage = (index: number): ImportedMaterial["image"] => {
+    const image = getItem(gltf.images, index, "image");
+    if (image.uri?.startsWith("data:")) return { dataUrl: image.uri };
+    if (image.uri) {
+      const path = context.resolvePath(decodeURIComponent(image.uri));
+      if (!path) warnings.push(`Image "${image.uri}" not found.`);
+      return path ? { path } : null;
+    }
+    if (image.bufferView !== undefined) {
+      return { dataUrl: toDataUrl(getBufferViewData(image.bufferView), image.mimeType ?? "image/png") };
+    }
+    return null;
+  };
+
+  const materials: ImportedMaterial[] = (gltf.materials ?? []).map((material, index) => {
+    const textureIndex = material.pbrMetallicRoughness?.baseColorTexture?.index;
+    const source =
+      textureIndex === undefined ? undefined : getItem(gltf.textures, textureIndex, "texture").source;
+    return {
+      name: material.name ?? `material_${index}`,
+      image: source === undefined ? null : getImage(source),
+    };
+  });
+
+  const objects: ImportedObject[] = [];
+  const nodes = gltf.nodes ?? [];
+
+  // glTF node hierarchies are trees; a node reached twice would be imported twice or loop forever
+  const visited = new Set<number>();
+
+  const visit = (nodeIndex: number, parentMatrix: Matrix4) => {
+    const node = getItem(nodes, nodeIndex, "node");
+    if (visited.has(nodeIndex)) {
+      throw new Error(`glTF node ${nodeIndex} has more than one parent or is part of a cycle.`);
+    }
+    visited.add(nodeIndex);
+    const local =
+      node.matrix ??
+      composeMatrix(node.translation ?? [0, 0, 0], node.rotation ?? [0, 0, 0, 1], node.scale ?? [1, 1, 1]);
+    const world = multiplyMatrices(parentMatrix, local);
+
+    if (node.mesh !== undefined) {
+      const mesh = getItem(gltf.meshes, node.mesh, "mesh");
+      const object: ImportedObject = {
+        name: node.name ?? mesh.name ?? `mesh_${node.mesh}`,
+        positions: [],
+        faces: [],
+      };
+
+      mesh.primitives.forEach((primitive, primitiveIndex) => {
+        if ((primitive.mode ?? GLTF_TRIANGLES) !== GLTF_TRIANGLES) {
+          warnings.push(`Skipped primitive ${primitiveIndex} of "${object.name}": only triangles are supported.`);
+          return;
+        }
+        if (primitive.attributes.POSITION === undefined) return;
+
+        const offset = object.positions.length;
+        for (const position of readAccessor(primitive.attributes.POSITION)) {
+          object.positions.push(transformPoint(world, position));
+        }
+        const uvs =
+          primitive.attributes.TEXCOORD_0 === undefined
+            ? null
+            : readAccessor(primitive.attributes.TEXCOORD_0);
+        const indices =
+          primitive.indices === undefined
+            ? object.positions.slice(offset).map((_, i) => i)
+            : readAccessor(primitive.indices).map(([index]) => index);
+
+        const vertexCount = object.positions.length - offset;
+        const invalidIndex = indices.find((index) => index >= vertexCount);
+        if (invalidIndex !== undefined) {
+          throw new Error(
+            `Primitive ${primitiveIndex} of "${object.name}" uses vertex ${invalidIndex}, but has only ${vertexCount}.`
+          );
+        }
+        if (primitive.material !== undefined) {
+          getItem(gltf.materials, primitive.material, "material");
+        }
+
+        for (let i = 0; i + 2 < indices.length; i += 3) {
+          const corners = [indices[i], indices[i + 1], indices[i + 2]];
+          object.faces.push({
+            vertices: corners.map((index) => offset + index),
+            uvs: corners.map((index) => (uvs?.[index] ? [uvs[index][0], uvs[index][1]] : null)),
+            material: primitive.material ?? null,
+          });
+        }
+      });
+
+      if (object.faces.length) objects.push(object);
+    }
+
+    node.children?.forEach((child) => visit(child, world));
+  };
+
+  // Without scenes, every node that isn't a child of another node is a root
+  const children = new Set(nodes.flatMap((node) => node.children ?? []));
+  const roots =
+    gltf.scenes?.[gltf.scene ?? 0]?.nodes ??
+    nodes.map((_, index) => index).filter((index) => !children.has(index));
+  roots.forEach((index) => visit(index, IDENTITY_MATRIX));
+
+  return { objects, materials, warnings };
+}
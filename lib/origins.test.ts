@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getCorsHeaders, isHostAllowed, isOriginAllowed } from "@/lib/origins";
+
+let values: Record<string, unknown> = {};
+
+beforeEach(() => {
+  values = {};
+  // @ts-ignore - only Settings.get is used
+  globalThis.Settings = { get: (id: string) => values[id] };
+});
+
+describe("isHostAllowed", () => {
+  test("allows the default loopback hosts with any port", () => {
+    expect(isHostAllowed("localhost:3000")).toBe(true);
+    expect(isHostAllowed("127.0.0.1")).toBe(true);
+    expect(isHostAllowed("[::1]:3000")).toBe(true);
+  });
+
+  test("rejects other and missing hosts", () => {
+    expect(isHostAllowed("attacker.example:3000")).toBe(false);
+    expect(isHostAllowed(undefined)).toBe(false);
+  });
+
+  test("uses the configured allowlist", () => {
+    values.mcp_allowed_hosts = "studio.local, 192.168.1.5:3000";
+
+    expect(isHostAllowed("STUDIO.local:8080")).toBe(true);
+    expect(isHostAllowed("192.168.1.5:3000")).toBe(true);
+    expect(isHostAllowed("localhost")).toBe(false);
+  });
+
+  test("allows every host with a wildcard", () => {
+    values.mcp_allowed_hosts = "*";
+
+    expect(isHostAllowed("anything.example")).toBe(true);
+  });
+});
+
+describe("isOriginAllowed", () => {
+  test("allows requests without an origin", () => {
+    expect(isOriginAllowed(undefined)).toBe(true);
+  });
+
+  test("matches entries without a port against any port", () => {
+    expect(isOriginAllowed("http://localhost:5173")).toBe(true);
+    expect(isOriginAllowed("http://[::1]:5173")).toBe(true);
+    expect(isOriginAllowed("https://localhost")).toBe(false);
+    expect(isOriginAllowed("http://attacker.example")).toBe(false);
+  });
+
+  test("rejects malformed origins", () => {
+    expect(isOriginAllowed("not a url")).toBe(false);
+  });
+});
+
+describe("getCorsHeaders", () => {
+  test("echoes the origin and adds nothing without one", () => {
+    expect(getCorsHeaders("http://localhost")["access-control-allow-origin"]).toBe("http://localhost");
+    expect(getCorsHeaders(undefined)).toEqual({});
+  });
+});
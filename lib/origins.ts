@@ -0,0 +1,103 @@
+/**
+ * Origin and Host header validation for the MCP HTTP endpoint.
+ *
+ * Guards against DNS-rebinding attacks: a web page that resolves its own domain to
+ * 127.0.0.1 still sends its real `Host` and `Origin`, so both are checked against
+ * allowlists from the `mcp_allowed_hosts` and `mcp_allowed_origins` settings.
+ */
+import { parseList } from "@/lib/util";
+
+export const DEFAULT_ALLOWED_HOSTS = "localhost, 127.0.0.1, [::1]";
+export const DEFAULT_ALLOWED_ORIGINS = "http://localhost, http://127.0.0.1, http://[::1]";
+
+const CORS_ALLOWED_METHODS = "GET, POST, DELETE, OPTIONS";
+const CORS_ALLOWED_HEADERS =
+  "authorization, content-type, accept, last-event-id, mcp-session-id, mcp-protocol-version";
+const CORS_EXPOSED_HEADERS = "mcp-session-id, mcp-protocol-version";
+const CORS_MAX_AGE_SECONDS = 600;
+
+export function getAllowedHosts(): string[] {
+  return parseList(Settings.get("mcp_allowed_hosts") ?? DEFAULT_ALLOWED_HOSTS);
+}
+
+export function getAllowedOrigins(): string[] {
+  return parseList(Settings.get("mcp_allowed_origins") ?? DEFAULT_ALLOWED_ORIGINS);
+}
+
+/**
+ * Strips the port from a `Host` header value, keeping IPv6 brackets.
+ * @example stripPort("localhost:3000") // "localhost"
+ * @example stripPort("[::1]:3000") // "[::1]"
+ */
+function stripPort(host: string): string {
+  if (host.startsWith("[")) {
+    const end = host.indexOf("]");
+    return end === -1 ? host : host.slice(0, end + 1);
+  }
+  const colonIdx = host.indexOf(":");
+  return colonIdx === -1 ? host : host.slice(0, colonIdx);
+}
+
+/**
+ * Checks the `Host` header. A missing header is rejected since every
+ * HTTP/1.1 request must carry one.
+ */
+export function isHostAllowed(host?: string): boolean {
+  if (!host) return false;
+
+  const allowed = getAllowedHosts();
+  if (allowed.includes("*")) return true;
+
+  const normalized = host.trim().toLowerCase();
+  return allowed.includes(normalized) || allowed.includes(stripPort(normalized));
+}
+
+/**
+ * Checks the `Origin` header. Requests without one come from non-browser
+ * clients and are allowed. Allowlist entries without a port match any port.
+ */
+export function isOriginAllowed(origin?: string): boolean {
+  if (!origin) return true;
+
+  const allowed = getAllowedOrigins();
+  if (allowed.includes("*")) return true;
+
+  const normalized = origin.trim().toLowerCase();
+  if (allowed.includes(normalized)) return true;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(normalized);
+  } catch {
+    return false;
+  }
+
+  // URL.hostname keeps IPv6 brackets, so "http://[::1]" entries match as written
+  return allowed.includes(`${parsed.protocol}//${parsed.hostname}`);
+}
+
+/**
+ * Returns the CORS headers to attach to responses for an allowed browser origin.
+ * Returns an empty object for requests without an `Origin` header.
+ */
+export function getCorsHeaders(origin?: string): Record<string, string> {
+  if (!origin) return {};
+
+  return {
+    "access-control-allow-origin": origin,
+    "access-control-expose-headers": CORS_EXPOSED_HEADERS,
+    vary: "Origin",
+  };
+}
+
+/**
+ * Returns the headers for a CORS preflight (`OPTIONS`) response.
+ */
+export function getPreflightHeaders(origin?: string): Record<string, string> {
+  return {
+    ...getCorsHeaders(origin),
+    "access-control-allow-methods": CORS_ALLOWED_METHODS,
+    "access-control-allow-headers": CORS_ALLOWED_HEADERS,
+    "access-control-max-age": String(CORS_MAX_AGE_SECONDS),
+  };
+}
@@ -0,0 +1,212 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ToolContext,
+  ToolDefinition,
+  ToolResult,
+  CallToolResult,
+} from "@/lib/factories";
+
+/**
+ * A single tool invocation as it moves through the pipeline.
+ */
+export interface ToolCall {
+  /** Registered tool name */
+  name: string;
+  /** Validated tool arguments */
+  args: Record<string, unknown>;
+  definition: ToolDefinition;
+  context: ToolContext;
+  /** Timestamp (ms) when the call entered the pipeline */
+  startedAt: number;
+  /** Timestamp (ms) when the tool itself started, after every `beforeCall` hook. Unset if a hook rejected the call. */
+  executedAt?: number;
+}
+
+/**
+ * Hooks that plug into every tool call, on the singleton server and on per-session servers alike.
+ *
+ * - `beforeCall` runs in registration order. Throwing rejects the call.
+ * - `afterCall` runs in reverse order and may return a replacement result.
+ * - `onError` runs in reverse order when the tool or a hook throws. The error is rethrown afterwards.
+ */
+export interface ToolMiddleware {
+  name: string;
+  beforeCall?: (call: ToolCall) => void | Promise<void>;
+  afterCall?: (
+    call: ToolCall,
+    result: CallToolResult
+  ) => CallToolResult | void | Promise<CallToolResult | void>;
+  onError?: (call: ToolCall, error: unknown) => void | Promise<void>;
+}
+
+const middlewares: ToolMiddleware[] = [];
+
+/**
+ * Adds a middleware to the tool-call pipeline.
+ * @param middleware - The middleware hooks.
+ * @returns - A function that removes the middleware again.
+ * @throws - If a middleware with the same name is already registered.
+ */
+export function useToolMiddleware(middleware: ToolMiddleware): () => void {
+  if (middlewares.some(({ name }) => name === middleware.name)) {
+    throw new Error(`Tool middleware with name "${middleware.name}" already exists.`);
+  }
+
+  middlewares.push(middleware);
+
+  return () => {
+    const index = middlewares.indexOf(middleware);
+    if (index !== -1) {
+      middlewares.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Builds the tool context for a request, wiring progress reports to MCP progress notifications
+ * and exposing the request's cancellation signal.
+ * @param extra - The request handler extra passed by the SDK to tool callbacks
+ */
+export function createToolContext(extra: unknown): ToolContext {
+  const { _meta, sendNotification, signal, sessionId } = (extra ?? {}) as Partial<
+    RequestHandlerExtra<ServerRequest, ServerNotification>
+  >;
+  const progressToken = _meta?.progressToken;
+
+  const reportProgress: ToolContext["reportProgress"] = ({ progress, total, message }) => {
+    if (progressToken === undefined || !sendNotification) return;
+
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    }).catch((error: unknown) => {
+      console.error("[MCP] Failed to send progress notification:", error);
+    });
+  };
+
+  return {
+    reportProgress,
+    signal: signal ?? new AbortController().signal,
+    sessionId,
+  };
+}
+
+/**
+ * Normalizes a tool's return value to the MCP CallToolResult format.
+ * Tools may return plain strings for convenience.
+ */
+export function normalizeToolResult(result: ToolResult | unknown): CallToolResult {
+  if (typeof result === "string") {
+    return {
+      content: [{ type: "text", text: result }],
+    };
+  }
+
+  // If result already has content array, return as-is
+  if (result && typeof result === "object" && "content" in result) {
+    return result as CallToolResult;
+  }
+
+  // Fallback: stringify any other result
+  return {
+    content: [{ type: "text", text: JSON.stringify(result) }],
+  };
+}
+
+/**
+ * Validates a result's `structuredContent` against the tool's output schema and adds
+ * a JSON text fallback for clients that only read `content`.
+ * @throws - If the tool declares an output schema and returned missing or invalid structured content.
+ */
+function applyOutputSchema(
+  name: string,
+  definition: ToolDefinition,
+  result: CallToolResult
+): CallToolResult {
+  let { structuredContent } = result;
+
+  if (definition.outputSchema && !result.isError) {
+    if (structuredContent === undefined) {
+      throw new Error(
+        `Tool "${name}" declares an output schema but returned no structured content.`
+      );
+    }
+
+    const parsed = definition.outputSchema.safeParse(structuredContent);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ");
+      throw new Error(`Tool "${name}" returned invalid structured content: ${issues}`);
+    }
+    structuredContent = parsed.data;
+  }
+
+  if (structuredContent === undefined) {
+    return result;
+  }
+
+  // Images and other non-text content are kept in front of the fallback
+  return {
+    ...result,
+    content: result.content.some((item) => item.type === "text")
+      ? result.content
+      : [...result.content, { type: "text", text: JSON.stringify(structuredContent, null, 2) }],
+    structuredContent,
+  };
+}
+
+/**
+ * Runs a tool through the middleware pipeline.
+ * @param name - The tool name.
+ * @param definition - The stored tool definition.
+ * @param args - Arguments already validated by the SDK.
+ * @param extra - The request handler extra passed by the SDK.
+ * @returns - The normalized tool result.
+ */
+export async function executeToolCall(
+  name: string,
+  definition: ToolDefinition,
+  args: Record<string, unknown>,
+  extra: unknown
+): Promise<CallToolResult> {
+  const call: ToolCall = {
+    name,
+    args,
+    definition,
+    context: createToolContext(extra),
+    startedAt: Date.now(),
+  };
+
+  // Snapshot so hooks added or removed mid-call don't affect this call
+  const active = [...middlewares];
+
+  try {
+    for (const middleware of active) {
+      await middleware.beforeCall?.(call);
+    }
+
+    call.executedAt = Date.now();
+    let result = applyOutputSchema(
+      name,
+      definition,
+      normalizeToolResult(await definition.execute(args, call.context))
+    );
+
+    for (const middleware of [...active].reverse()) {
+      result = (await middleware.afterCall?.(call, result)) ?? result;
+    }
+
+    return result;
+  } catch (error) {
+    for (const middleware of [...active].reverse()) {
+      try {
+        await middleware.onError?.(call, error);
+      } catch (hookError) {
+        console.error(`[MCP] Tool middleware "${middleware.name}" onError failed:`, hookError);
+      }
+    }
+    throw error;
+  }
+}
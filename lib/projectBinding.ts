@@ -0,0 +1,102 @@
+/**
+ * Per-session project binding.
+ *
+ * A session bound with the `select_project` tool has its tool calls run against that
+ * project: it is selected before the call and the previously selected project is
+ * restored afterwards. The scheduler runs calls that switch projects alone, so one
+ * session's switch never leaks into another call.
+ */
+import { useToolMiddleware, type ToolCall } from "@/lib/pipeline";
+import { sessionManager } from "@/lib/sessions";
+
+interface ProjectContext {
+  /** Project that was selected before the call switched to the bound one */
+  previous?: ModelProject;
+  bound: ModelProject;
+  /** Projects that were open before the call, to tell which ones it created or opened */
+  openBefore: Set<ModelProject>;
+}
+
+/** Tools that run without switching projects, so a session can always rebind */
+const UNBOUND_TOOLS = ["select_project"];
+
+const activeCalls: WeakMap<ToolCall, ProjectContext> = new WeakMap();
+
+let removeMiddleware: (() => void) | undefined;
+
+/**
+ * Finds an open project by UUID or name.
+ */
+export function findProject(id: string): ModelProject | undefined {
+  return ModelProject.all.find((project) => project.uuid === id || project.name === id);
+}
+
+/**
+ * Returns the open project a session is bound to, if any.
+ */
+export function getSessionProject(sessionId?: string): ModelProject | undefined {
+  const uuid = sessionId ? sessionManager.get(sessionId)?.projectUuid : undefined;
+  return uuid ? findProject(uuid) : undefined;
+}
+
+function enterProject(call: ToolCall): void {
+  const { sessionId } = call.context;
+  const uuid = sessionId ? sessionManager.get(sessionId)?.projectUuid : undefined;
+  if (!sessionId || !uuid || UNBOUND_TOOLS.includes(call.name)) return;
+
+  const bound = findProject(uuid);
+  if (!bound) {
+    sessionManager.setProject(sessionId, undefined);
+    throw new Error(
+      "The project bound to this session was closed. Use the select_project tool to choose another project."
+    );
+  }
+
+  activeCalls.set(call, { previous: Project || undefined, bound, openBefore: new Set(ModelProject.all) });
+  if (Project !== bound) {
+    bound.select();
+  }
+}
+
+function leaveProject(call: ToolCall): void {
+  const context = activeCalls.get(call);
+  if (!context) return;
+  activeCalls.delete(call);
+
+  const { previous, bound, openBefore } = context;
+  const sessionId = call.context.sessionId!;
+
+  // A tool that created or opened a project leaves it selected; the binding follows it
+  if (Project && !openBefore.has(Project)) {
+    sessionManager.setProject(sessionId, Project.uuid);
+  } else if (!ModelProject.all.includes(bound)) {
+    sessionManager.setProject(sessionId, undefined);
+  }
+  if (previous && previous !== Project && ModelProject.all.includes(previous)) {
+    previous.select();
+  }
+}
+
+/**
+ * Starts running tool calls against their session's bound project.
+ * Must be set up after the scheduler.
+ */
+export function projectBindingSetup(): void {
+  if (removeMiddleware) return;
+
+  removeMiddleware = useToolMiddleware({
+    name: "project-binding",
+    beforeCall: enterProject,
+    afterCall(call) {
+      leaveProject(call);
+    },
+    onError(call) {
+      leaveProject(call);
+    },
+  });
+}
+
+export function projectBindingTeardown(): void {
+  removeMiddleware?.();
+  removeMiddleware = undefined;
+}
@@ -0,0 +1,133 @@
+/**
+ * `resources/subscribe` support with change notifications driven by Blockbench events.
+ *
+ * Each resource lists the events that change it in `updatedOn`. When one of them fires,
+ * sessions subscribed to a URI of that resource receive `notifications/resources/updated`.
+ * Events are batched briefly so a burst of edits (e.g. a paint stroke) sends one update.
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getAllResourceDefinitions } from "@/lib/factories";
+
+/** Events after which anything in the current project may have changed */
+export const PROJECT_CONTENT_EVENTS: BlockbenchEventName[] = [
+  "finish_edit",
+  "undo",
+  "redo",
+  "select_project",
+];
+
+const NOTIFY_DELAY_MS = 100;
+
+const subscriptions: Map<McpServer, Set<string>> = new Map();
+const pendingEvents: Set<BlockbenchEventName> = new Set();
+
+let eventListeners: Deletable[] = [];
+let notifyHandle: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Returns the fixed part of a URI template, e.g. "textures://" for "textures://{id}".
+ */
+function getUriPrefix(uriTemplate: string): string {
+  const index = uriTemplate.indexOf("{");
+  return index === -1 ? uriTemplate : uriTemplate.slice(0, index);
+}
+
+function isAffected(uri: string, events: Set<BlockbenchEventName>): boolean {
+  return Object.values(getAllResourceDefinitions()).some(
+    ({ uriTemplate, updatedOn }) =>
+      uri.startsWith(getUriPrefix(uriTemplate)) &&
+      updatedOn?.some((event) => events.has(event))
+  );
+}
+
+function flushNotifications(): void {
+  notifyHandle = undefined;
+  const events = new Set(pendingEvents);
+  pendingEvents.clear();
+
+  for (const [server, uris] of subscriptions) {
+    for (const uri of uris) {
+      if (!isAffected(uri, events)) continue;
+
+      server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        console.error(`[MCP] Failed to send resource update for ${uri}:`, error);
+      });
+    }
+  }
+}
+
+function queueNotifications(event: BlockbenchEventName): void {
+  if (subscriptions.size === 0) return;
+
+  pendingEvents.add(event);
+  notifyHandle ??= setTimeout(flushNotifications, NOTIFY_DELAY_MS);
+}
+
+/**
+ * Returns the URIs a server is subscribed to.
+ */
+export function getSubscribedUris(server: McpServer): string[] {
+  return [...(subscriptions.get(server) ?? [])];
+}
+
+/**
+ * Handles `resources/subscribe` and `resources/unsubscribe` on a session server.
+ * Must be called before the server connects to its transport.
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    let uris = subscriptions.get(server);
+    if (!uris) {
+      uris = new Set();
+      subscriptions.set(server, uris);
+    }
+    uris.add(params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    const uris = subscriptions.get(server);
+    uris?.delete(params.uri);
+    if (uris?.size === 0) {
+      subscriptions.delete(server);
+    }
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    subscriptions.delete(server);
+  };
+}
+
+/**
+ * Starts listening to the Blockbench events that resources declared in `updatedOn`.
+ * Must run after all resources are registered.
+ */
+export function resourceSubscriptionsSetup(): void {
+  if (eventListeners.length > 0) return;
+
+  const events = new Set(
+    Object.values(getAllResourceDefinitions()).flatMap(({ updatedOn }) => updatedOn ?? [])
+  );
+
+  eventListeners = [...events].map((event) =>
+    Blockbench.on(event, () => queueNotifications(event))
+  );
+}
+
+export function resourceSubscriptionsTeardown(): void {
+  eventListeners.forEach((listener) => listener.delete());
+  eventListeners = [];
+  clearTimeout(notifyHandle);
+  notifyHandle = undefined;
+  pendingEvents.clear();
+  subscriptions.clear();
+}
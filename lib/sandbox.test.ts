@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import vm from "node:vm";
+import { evaluateCode, sandboxTeardown } from "@/lib/sandbox";
+
+beforeAll(() => {
+  // A vm context stands in for the hidden iframe's realm
+  const realmGlobal = vm.runInNewContext("this");
+  Object.assign(globalThis, {
+    window: globalThis,
+    Node: class {},
+    document: {
+      createElement: () => ({ style: {}, setAttribute() {}, contentWindow: realmGlobal }),
+      body: { append() {} },
+    },
+    Outliner: { elements: [] },
+    Cube: { all: [{ name: "body" }, { name: "head" }] },
+    Mesh: { all: [] },
+    Group: { all: [] },
+    Texture: { all: [] },
+    Animator: { animations: [] },
+    Undo: {},
+  });
+});
+
+afterAll(() => {
+  sandboxTeardown();
+});
+
+describe("evaluateCode", () => {
+  test("evaluates expressions and statements against the API", async () => {
+    expect(await evaluateCode("Cube.all.map((cube) => cube.name)")).toEqual(["body", "head"]);
+    expect(await evaluateCode("const count = Cube.all.length;\nreturn count * 2;")).toBe(4);
+  });
+
+  test("hides host globals", async () => {
+    expect(await evaluateCode("typeof process")).toBe("undefined");
+    expect(await evaluateCode("Cube.constructor")).toBeUndefined();
+  });
+
+  test("rethrows host errors as sandbox errors without host constructors", async () => {
+    const escape = `
+      try {
+        Cube.all.map(null);
+      } catch (error) {
+        return error.constructor.constructor("return process")();
+      }
+    `;
+    await expect(evaluateCode(escape)).rejects.toThrow();
+
+    expect(
+      await evaluateCode(`
+        try {
+          Cube.all.map(null);
+        } catch (error) {
+          return [error instanceof TypeError, error.message.length > 0];
+        }
+      `)
+    ).toEqual([true, true]);
+  });
+
+  test("only rejects dynamic import syntax", async () => {
+    expect(await evaluateCode('const obj = { import: 1 }; // import it\nreturn obj.import + "import";')).toBe(
+      "1import"
+    );
+    await expect(evaluateCode('import("fs")')).rejects.toThrow("import() and import.meta are not available");
+    await expect(evaluateCode('import /* hidden */ ("fs")')).rejects.toThrow("not available");
+    await expect(evaluateCode("import.meta")).rejects.toThrow("not available");
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Sandboxed code evaluation for the `risky_eval` tool.
+ *
+ * Code is compiled in a separate JavaScript realm (a hidden iframe), with every global
+ * except the standard built-ins shadowed. Host objects are only reachable through the
+ * curated API from `getSandboxApi()`, and each of them is wrapped in a membrane proxy
+ * that hides `constructor` and links back to `window` or the DOM.
+ *
+ * This narrows what agent code can reach, but it is not a hard security boundary.
+ * Sessions flagged as unsafe skip the sandbox and run code with full access.
+ */
+
+/** Standard built-ins left visible inside the sandbox */
+const ALLOWED_GLOBALS = new Set([
+  "Array",
+  "ArrayBuffer",
+  "BigInt",
+  "Boolean",
+  "DataView",
+  "Date",
+  "Error",
+  "Float32Array",
+  "Float64Array",
+  "Infinity",
+  "Int16Array",
+  "Int32Array",
+  "Int8Array",
+  "Intl",
+  "JSON",
+  "Map",
+  "Math",
+  "NaN",
+  "Number",
+  "Object",
+  "Promise",
+  "RangeError",
+  "ReferenceError",
+  "Reflect",
+  "RegExp",
+  "Set",
+  "String",
+  "Symbol",
+  "SyntaxError",
+  "TypeError",
+  "Uint16Array",
+  "Uint32Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "WeakMap",
+  "WeakSet",
+  "console",
+  "decodeURI",
+  "decodeURIComponent",
+  "encodeURI",
+  "encodeURIComponent",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "undefined",
+]);
+
+/** Node and Blockbench globals that may not show up as window properties */
+const EXTRA_SHADOWED_GLOBALS = [
+  "require",
+  "requireNativeModule",
+  "process",
+  "module",
+  "exports",
+  "global",
+  "Buffer",
+  "__dirname",
+  "__filename",
+];
+
+/** Error types recreated inside the sandbox when host code throws them */
+const SANDBOX_ERROR_TYPES = ["Error", "RangeError", "ReferenceError", "SyntaxError", "TypeError"] as const;
+
+/**
+ * Dynamic `import()` and `import.meta`, also with comments before the parenthesis or dot.
+ * Property names such as `obj.import` don't match.
+ */
+const DYNAMIC_IMPORT_PATTERN = /(?<![.\w$])import(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*(?:\n|$))*[(.]/;
+
+/** Names that cannot be used as parameter names in strict mode code */
+const RESERVED_NAMES = new Set(["eval", "arguments", "let", "static", "yield", "await"]);
+
+/** Properties that lead from API objects back to constructors, `window` or the DOM */
+const BLOCKED_KEYS = new Set<PropertyKey>([
+  "constructor",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+  "ownerDocument",
+  "defaultView",
+  "contentWindow",
+  "contentDocument",
+  "require",
+  "process",
+  "global",
+  "globalThis",
+  "window",
+  "self",
+  "top",
+  "parent",
+  "opener",
+  "frames",
+  "document",
+]);
+
+interface SandboxRealm {
+  global: Window & typeof globalThis;
+  compile: FunctionConstructor;
+  /** Global names passed as `undefined` parameters to hide them from sandboxed code */
+  shadowed: string[];
+}
+
+let realm: SandboxRealm | null = null;
+
+const hostToProxy: WeakMap<object, object> = new WeakMap();
+const proxyToHost: WeakMap<object, object> = new WeakMap();
+const sandboxToHostFunction: WeakMap<Function, Function> = new WeakMap();
+
+/**
+ * The Blockbench API exposed to sandboxed code.
+ */
+function getSandboxApi(): Record<string, unknown> {
+  return {
+    Outliner: wrap(Outliner),
+    Cube: wrap(Cube),
+    Mesh: wrap(Mesh),
+    Group: wrap(Group),
+    Texture: wrap(Texture),
+    // @ts-ignore - Animator is globally available
+    Animator: wrap(Animator),
+    Undo: wrap(Undo),
+  };
+}
+
+function isObject(value: unknown): value is object {
+  return (typeof value === "object" && value !== null) || typeof value === "function";
+}
+
+function isForbidden(value: object): boolean {
+  return (
+    value === window ||
+    value === document ||
+    value === realm?.global ||
+    value instanceof Node ||
+    // @ts-ignore - Node globals are available in the Blockbench desktop app
+    (typeof process !== "undefined" && value === process) ||
+    // @ts-ignore - requireNativeModule is a Blockbench global
+    (typeof requireNativeModule !== "undefined" && value === requireNativeModule)
+  );
+}
+
+function isSandboxValue(value: object): boolean {
+  return realm !== null && value instanceof realm.global.Object;
+}
+
+/**
+ * Wraps a host value before handing it to sandboxed code.
+ */
+function wrap(value: unknown): unknown {
+  if (!isObject(value)) return value;
+  if (proxyToHost.has(value) || isSandboxValue(value)) return value;
+  if (isForbidden(value)) return undefined;
+
+  const existing = hostToProxy.get(value);
+  if (existing) return existing;
+
+  const proxy = new Proxy(value, membraneHandler);
+  hostToProxy.set(value, proxy);
+  proxyToHost.set(proxy, value);
+  return proxy;
+}
+
+/**
+ * Converts a value coming from sandboxed code back into a host value.
+ * Sandbox functions become host functions that wrap their arguments, so callbacks
+ * passed to the API (e.g. `Cube.all.forEach(...)`) never receive raw host objects.
+ */
+function unwrap(value: unknown): unknown {
+  if (!isObject(value)) return value;
+
+  const host = proxyToHost.get(value);
+  if (host) return host;
+  if (!isSandboxValue(value)) return value;
+
+  if (typeof value === "function") {
+    let hostFunction = sandboxToHostFunction.get(value);
+    if (!hostFunction) {
+      const sandboxFunction = value;
+      hostFunction = function (this: unknown, ...args: unknown[]) {
+        return unwrap(Reflect.apply(sandboxFunction, wrap(this), args.map(wrap)));
+      };
+      sandboxToHostFunction.set(value, hostFunction);
+    }
+    return hostFunction;
+  }
+
+  // Copy arrays and plain objects so host code sees host-realm values (e.g. for `instanceof Array`)
+  if (Array.isArray(value)) {
+    return Array.from(value, unwrap);
+  }
+  if (Object.getPrototypeOf(value) === realm!.global.Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, unwrap(entry)])
+    );
+  }
+
+  return value;
+}
+
+function wrapDescriptor(descriptor: PropertyDescriptor, convert: (value: unknown) => unknown) {
+  const result: PropertyDescriptor = { ...descriptor };
+  if ("value" in descriptor) result.value = convert(descriptor.value);
+  if (descriptor.get) result.get = convert(descriptor.get) as () => unknown;
+  if (descriptor.set) result.set = convert(descriptor.set) as (value: unknown) => void;
+  return result;
+}
+
+/**
+ * Runs host code for a membrane trap. Host errors would hand sandboxed code a host
+ * `Function` through `error.constructor.constructor`, so they are rethrown as new
+ * sandbox errors that only keep the message.
+ */
+function callHost<T>(run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    if (isObject(error) && isSandboxValue(error)) throw error;
+    const name = (error as Error)?.name;
+    const type = SANDBOX_ERROR_TYPES.find((type) => type === name) ?? "Error";
+    const message = isObject(error) ? String((error as Error).message) : String(error);
+    throw new (realm ? realm.global[type] : globalThis[type])(message);
+  }
+}
+
+const membraneHandler: ProxyHandler<object> = {
+  get(target, key) {
+    if (BLOCKED_KEYS.has(key)) return undefined;
+    return callHost(() => wrap(Reflect.get(target, key)));
+  },
+  set(target, key, value) {
+    if (BLOCKED_KEYS.has(key)) return false;
+    return callHost(() => Reflect.set(target, key, unwrap(value)));
+  },
+  apply(target, thisArg, args) {
+    return callHost(() => wrap(Reflect.apply(target as Function, unwrap(thisArg), args.map(unwrap))));
+  },
+  construct(target, args) {
+    return callHost(() => wrap(Reflect.construct(target as Function, args.map(unwrap))) as object);
+  },
+  getPrototypeOf(target) {
+    return callHost(() => wrap(Reflect.getPrototypeOf(target)) as object | null);
+  },
+  setPrototypeOf() {
+    return false;
+  },
+  getOwnPropertyDescriptor(target, key) {
+    if (BLOCKED_KEYS.has(key)) return undefined;
+    return callHost(() => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+      return descriptor && wrapDescriptor(descriptor, wrap);
+    });
+  },
+  defineProperty(target, key, descriptor) {
+    if (BLOCKED_KEYS.has(key)) return false;
+    return callHost(() => Reflect.defineProperty(target, key, wrapDescriptor(descriptor, unwrap)));
+  },
+};
+
+/**
+ * Collects the names visible as globals in a window, including its prototype chain.
+ */
+function collectGlobalNames(target: object, names: Set<string>) {
+  let current: object | null = target;
+  while (current && current !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      names.add(name);
+    }
+    current = Object.getPrototypeOf(current);
+  }
+}
+
+/**
+ * Creates the hidden iframe realm and removes the ways sandboxed code could
+ * compile new code against its global object.
+ */
+function getRealm(): SandboxRealm {
+  if (realm) return realm;
+
+  const iframe = document.createElement("iframe");
+  iframe.style.display = "none";
+  iframe.setAttribute("aria-hidden", "true");
+  document.body.append(iframe);
+
+  const global = iframe.contentWindow as Window & typeof globalThis;
+  const compile = global.Function;
+
+  // Function values expose their constructor, which compiles code in global scope
+  for (const source of ["function () {}", "async function () {}", "function* () {}", "async function* () {}"]) {
+    const prototype = Object.getPrototypeOf(compile(`return ${source}`)());
+    Object.defineProperty(prototype, "constructor", {
+      value: undefined,
+      writable: false,
+      configurable: false,
+    });
+  }
+  Reflect.deleteProperty(global, "eval");
+  // Structured stack traces can expose the `this` of host frames
+  Object.defineProperty(global.Error, "prepareStackTrace", {
+    value: undefined,
+    writable: false,
+    configurable: false,
+  });
+
+  const names = new Set(EXTRA_SHADOWED_GLOBALS);
+  collectGlobalNames(global, names);
+  collectGlobalNames(window, names);
+
+  const apiNames = new Set(Object.keys(getSandboxApi()));
+  const shadowed = [...names].filter(
+    (name) =>
+      /^[A-Za-z_$][\w$]*$/.test(name) &&
+      !ALLOWED_GLOBALS.has(name) &&
+      !RESERVED_NAMES.has(name) &&
+      !apiNames.has(name)
+  );
+
+  realm = { global, compile, shadowed };
+  return realm;
+}
+
+/**
+ * Compiles code as an expression, or as a function body when it contains statements.
+ */
+function compileCode(compile: FunctionConstructor, params: string[], code: string) {
+  const expression = code.trim().replace(/;+$/, "");
+  try {
+    return compile(...params, `"use strict"; return (async () => (\n${expression}\n))();`);
+  } catch (error) {
+    if ((error as Error)?.name !== "SyntaxError") throw error;
+  }
+  return compile(...params, `"use strict"; return (async () => {\n${code}\n})();`);
+}
+
+/**
+ * Evaluates code and returns its result.
+ * @param code - An expression, or statements that `return` a value.
+ * @param options.unsafe - Run in the host realm with full access instead of the sandbox.
+ */
+export async function evaluateCode(
+  code: string,
+  { unsafe = false }: { unsafe?: boolean } = {}
+): Promise<unknown> {
+  if (unsafe) {
+    return await compileCode(Function, [], code)();
+  }
+
+  // Dynamic import() would load a module whose global scope is not shadowed
+  if (DYNAMIC_IMPORT_PATTERN.test(code)) {
+    throw new Error("import() and import.meta are not available in the sandbox.");
+  }
+
+  const { compile, shadowed } = getRealm();
+  const api = getSandboxApi();
+  const run = compileCode(compile, [...shadowed, ...Object.keys(api)], code);
+
+  return unwrap(await run(...shadowed.map(() => undefined), ...Object.values(api)));
+}
+
+/**
+ * Removes the sandbox iframe. Used during plugin unload.
+ */
+export function sandboxTeardown(): void {
+  realm?.global.frameElement?.remove();
+  realm = null;
+}
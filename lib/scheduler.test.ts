@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { acquireAccess, type AccessMode } from "@/lib/scheduler";
+
+/**
+ * Requests access and records the label once it is granted.
+ */
+function request(order: string[], label: string, mode: AccessMode, signal?: AbortSignal) {
+  return acquireAccess(mode, signal).then((release) => {
+    order.push(label);
+    return release;
+  });
+}
+
+/** Lets granted requests run their `then` callbacks */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("acquireAccess", () => {
+  test("runs shared requests in parallel", async () => {
+    const order: string[] = [];
+    const first = request(order, "read 1", "shared");
+    const second = request(order, "read 2", "shared");
+    await flush();
+
+    expect(order).toEqual(["read 1", "read 2"]);
+    (await first)();
+    (await second)();
+  });
+
+  test("runs exclusive requests one at a time", async () => {
+    const order: string[] = [];
+    const first = request(order, "write 1", "exclusive");
+    const second = request(order, "write 2", "exclusive");
+    await flush();
+
+    expect(order).toEqual(["write 1"]);
+    (await first)();
+    await flush();
+    expect(order).toEqual(["write 1", "write 2"]);
+    (await second)();
+  });
+
+  test("grants waiting requests in arrival order", async () => {
+    const order: string[] = [];
+    const write1 = request(order, "write 1", "exclusive");
+    const read1 = request(order, "read 1", "shared");
+    const read2 = request(order, "read 2", "shared");
+    const write2 = request(order, "write 2", "exclusive");
+    const read3 = request(order, "read 3", "shared");
+    await flush();
+    expect(order).toEqual(["write 1"]);
+
+    (await write1)();
+    await flush();
+    expect(order).toEqual(["write 1", "read 1", "read 2"]);
+
+    // The later read waits behind the queued write instead of joining the running reads
+    (await read1)();
+    await flush();
+    expect(order).toEqual(["write 1", "read 1", "read 2"]);
+
+    (await read2)();
+    await flush();
+    expect(order).toEqual(["write 1", "read 1", "read 2", "write 2"]);
+
+    (await write2)();
+    await flush();
+    expect(order).toEqual(["write 1", "read 1", "read 2", "write 2", "read 3"]);
+    (await read3)();
+  });
+
+  test("ignores repeated releases", async () => {
+    const order: string[] = [];
+    const read = request(order, "read", "shared");
+    const release = await read;
+    const write1 = request(order, "write 1", "exclusive");
+    const write2 = request(order, "write 2", "exclusive");
+
+    release();
+    release();
+    await flush();
+
+    expect(order).toEqual(["read", "write 1"]);
+    (await write1)();
+    (await write2)();
+  });
+
+  test("drops aborted requests from the queue", async () => {
+    const order: string[] = [];
+    const controller = new AbortController();
+    const write1 = request(order, "write 1", "exclusive");
+    const aborted = request(order, "write 2", "exclusive", controller.signal);
+    const read = request(order, "read", "shared");
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow("cancelled");
+
+    (await write1)();
+    await flush();
+    expect(order).toEqual(["write 1", "read"]);
+    (await read)();
+  });
+
+  test("rejects requests whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(acquireAccess("exclusive", controller.signal)).rejects.toThrow("cancelled");
+  });
+});
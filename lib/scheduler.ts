@@ -0,0 +1,132 @@
+/**
+ * Central scheduler for tool calls from all sessions.
+ *
+ * Mutating tools run one at a time so their `Undo.initEdit`/`finishEdit` pairs never
+ * interleave. Tools annotated with `readOnlyHint` share access and run in parallel.
+ * Waiting calls are granted in arrival order, so a stream of read-only calls cannot
+ * starve a mutating one.
+ */
+import { useToolMiddleware, type ToolCall } from "@/lib/pipeline";
+import { getSessionProject } from "@/lib/projectBinding";
+
+export type AccessMode = "shared" | "exclusive";
+
+interface Waiter {
+  mode: AccessMode;
+  grant: () => void;
+}
+
+const waiting: Waiter[] = [];
+const releases: WeakMap<ToolCall, () => void> = new WeakMap();
+
+let activeShared = 0;
+let activeExclusive = false;
+let removeMiddleware: (() => void) | undefined;
+
+function grantWaiting(): void {
+  while (waiting.length > 0 && !activeExclusive) {
+    const next = waiting[0];
+    if (next.mode === "exclusive" && activeShared > 0) return;
+
+    waiting.shift();
+    if (next.mode === "exclusive") {
+      activeExclusive = true;
+    } else {
+      activeShared++;
+    }
+    next.grant();
+  }
+}
+
+/**
+ * Waits until the scheduler grants access in the given mode.
+ * @param mode - "exclusive" for mutating work, "shared" for read-only work.
+ * @param signal - Drops the request from the queue when aborted.
+ * @returns A function that gives the access back. Calling it more than once has no effect.
+ * @throws If the signal is aborted before access is granted.
+ */
+export function acquireAccess(mode: AccessMode, signal?: AbortSignal): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = waiting.indexOf(waiter);
+      if (index !== -1) {
+        waiting.splice(index, 1);
+        grantWaiting();
+      }
+      reject(new Error("Tool execution was cancelled by the client before it started."));
+    };
+
+    const waiter: Waiter = {
+      mode,
+      grant: () => {
+        signal?.removeEventListener("abort", onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          if (mode === "exclusive") {
+            activeExclusive = false;
+          } else {
+            activeShared--;
+          }
+          grantWaiting();
+        });
+      },
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    waiting.push(waiter);
+    grantWaiting();
+  });
+}
+
+/**
+ * Read-only calls share access unless they have to switch to their session's bound
+ * project, which changes the selection for every other call as well.
+ */
+function getAccessMode(call: ToolCall): AccessMode {
+  if (!call.definition.annotations?.readOnlyHint) return "exclusive";
+
+  const bound = getSessionProject(call.context.sessionId);
+  return bound && bound !== Project ? "exclusive" : "shared";
+}
+
+/**
+ * Starts scheduling tool calls. Must be set up before middlewares that rely on
+ * running alone, such as project binding.
+ */
+export function schedulerSetup(): void {
+  if (removeMiddleware) return;
+
+  const release = (call: ToolCall) => {
+    releases.get(call)?.();
+    releases.delete(call);
+  };
+
+  removeMiddleware = useToolMiddleware({
+    name: "scheduler",
+    async beforeCall(call) {
+      const mode = getAccessMode(call);
+      let releaseAccess = await acquireAccess(mode, call.context.signal);
+
+      // The selected project may have changed while the call was waiting
+      if (mode === "shared" && getAccessMode(call) === "exclusive") {
+        releaseAccess();
+        releaseAccess = await acquireAccess("exclusive", call.context.signal);
+      }
+
+      releases.set(call, releaseAccess);
+    },
+    afterCall: release,
+    onError: release,
+  });
+}
+
+export function schedulerTeardown(): void {
+  removeMiddleware?.();
+  removeMiddleware = undefined;
+}
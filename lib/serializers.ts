@@ -0,0 +1,249 @@
+/// <reference types="three" />
+/// <reference types="blockbench-types" />
+
+/**
+ * Plain JSON representations of outliner nodes and animations, used by the `elements://`,
+ * `groups://` and `animations://` resources and the `list_outline` tool.
+ * Every node of a type has the same keys in the same order, so agents can rely on the shape.
+ */
+
+type Vector3 = [number, number, number];
+
+function toVector3(value: ArrayLike<number> | undefined): Vector3 | null {
+  return value ? [value[0], value[1], value[2]] : null;
+}
+
+/**
+ * Returns the UUID of a face texture, or null when the face uses no texture.
+ */
+function getFaceTexture(face: { texture: string | false | undefined | null }): string | null {
+  return typeof face.texture === "string" ? face.texture : null;
+}
+
+/**
+ * Returns the names of a node's ancestors and the node itself, starting at the root.
+ */
+export function getHierarchyPath(node: OutlinerNode): string[] {
+  const path = [node.name];
+  let parent = node.parent;
+  while (parent && parent !== "root") {
+    path.unshift(parent.name);
+    parent = parent.parent;
+  }
+  return path;
+}
+
+function serializeNodeBase(node: OutlinerNode) {
+  return {
+    uuid: node.uuid,
+    name: node.name,
+    type: node.type,
+    parent: node.parent && node.parent !== "root" ? node.parent.uuid : null,
+    path: getHierarchyPath(node),
+  };
+}
+
+export function serializeCube(cube: Cube) {
+  const faces = Object.fromEntries(
+    Object.entries(cube.faces).map(([direction, face]) => [
+      direction,
+      {
+        uv: [...face.uv],
+        rotation: face.rotation,
+        texture: getFaceTexture(face),
+        cullface: face.cullface || null,
+        tint: face.tint,
+        enabled: face.enabled ?? true,
+      },
+    ])
+  );
+
+  return {
+    ...serializeNodeBase(cube),
+    from: toVector3(cube.from),
+    to: toVector3(cube.to),
+    origin: toVector3(cube.origin),
+    rotation: toVector3(cube.rotation),
+    inflate: cube.inflate,
+    box_uv: cube.box_uv,
+    uv_offset: cube.uv_offset ? [...cube.uv_offset] : null,
+    mirror_uv: cube.mirror_uv,
+    autouv: cube.autouv,
+    shade: cube.shade,
+    color: cube.color,
+    visibility: cube.visibility,
+    locked: cube.locked,
+    export: cube.export,
+    faces,
+  };
+}
+
+export function serializeMesh(mesh: Mesh) {
+  const vertices = Object.fromEntries(
+    Object.entries(mesh.vertices).map(([key, position]) => [key, toVector3(position)])
+  );
+  const faces = Object.fromEntries(
+    Object.entries(mesh.faces).map(([key, face]) => [
+      key,
+      {
+        vertices: [...face.vertices],
+        uv: Object.fromEntries(
+          face.vertices.map((vertex) => [vertex, face.uv[vertex] ? [...face.uv[vertex]] : null])
+        ),
+        texture: getFaceTexture(face),
+      },
+    ])
+  );
+
+  return {
+    ...serializeNodeBase(mesh),
+    origin: toVector3(mesh.origin),
+    rotation: toVector3(mesh.rotation),
+    color: mesh.color,
+    visibility: mesh.visibility,
+    locked: mesh.locked,
+    export: mesh.export,
+    vertices,
+    faces,
+  };
+}
+
+export function serializeGroup(group: Group) {
+  return {
+    ...serializeNodeBase(group),
+    origin: toVector3(group.origin),
+    rotation: toVector3(group.rotation),
+    color: group.color,
+    visibility: group.visibility,
+    locked: group.locked,
+    export: group.export,
+    children: group.children.map(({ uuid, name, type }) => ({ uuid, name, type })),
+  };
+}
+
+/**
+ * Serializes any outliner element. Element types other than cubes and meshes
+ * (locators, null objects, etc.) only include their transform.
+ */
+export function serializeElement(element: OutlinerElement) {
+  if (element instanceof Cube) return serializeCube(element);
+  if (element instanceof Mesh) return serializeMesh(element);
+
+  const { origin, rotation, visibility } = element as OutlinerElement & {
+    origin?: ArrayVector3;
+    rotation?: ArrayVector3;
+    visibility?: boolean;
+  };
+  return {
+    ...serializeNodeBase(element),
+    origin: toVector3(origin),
+    rotation: toVector3(rotation),
+    visibility: visibility ?? true,
+    locked: element.locked,
+    export: element.export,
+  };
+}
+
+/**
+ * Returns a compact summary of a node for outlines: transform, state and the textures it uses,
+ * with cube bounds or mesh vertex and face counts instead of full geometry.
+ */
+export function summarizeNode(node: OutlinerNode) {
+  const { origin, rotation, visibility, locked } = node as OutlinerNode & {
+    origin?: ArrayVector3;
+    rotation?: ArrayVector3;
+    visibility?: boolean;
+    locked?: boolean;
+  };
+  const summary = {
+    ...serializeNodeBase(node),
+    origin: toVector3(origin),
+    rotation: toVector3(rotation),
+    visibility: visibility ?? true,
+    locked: locked ?? false,
+  };
+
+  if (node instanceof Cube) {
+    return {
+      ...summary,
+      from: toVector3(node.from),
+      to: toVector3(node.to),
+      textures: getTextures(Object.values(node.faces)),
+    };
+  }
+  if (node instanceof Mesh) {
+    return {
+      ...summary,
+      vertexCount: Object.keys(node.vertices).length,
+      faceCount: Object.keys(node.faces).length,
+      textures: getTextures(Object.values(node.faces)),
+    };
+  }
+  if (node instanceof Group) {
+    return { ...summary, childCount: node.children.length };
+  }
+  return summary;
+}
+
+function getTextures(faces: { texture: string | false | undefined | null }[]): string[] {
+  return [...new Set(faces.map(getFaceTexture).filter((texture): texture is string => texture !== null))];
+}
+
+function serializeKeyframe(keyframe: BBKeyframe) {
+  return {
+    uuid: keyframe.uuid,
+    time: keyframe.time,
+    data_points: keyframe.data_points.map((point) => point.getUndoCopy()),
+    interpolation: keyframe.interpolation,
+    uniform: keyframe.uniform ?? false,
+    bezier_linked: keyframe.bezier_linked ?? false,
+    bezier_left_time: toVector3(keyframe.bezier_left_time),
+    bezier_left_value: toVector3(keyframe.bezier_left_value),
+    bezier_right_time: toVector3(keyframe.bezier_right_time),
+    bezier_right_value: toVector3(keyframe.bezier_right_value),
+  };
+}
+
+function serializeAnimator(animator: GeneralAnimator) {
+  const { name, type } = animator as GeneralAnimator & { name?: string; type?: string };
+  const channels = Object.fromEntries(
+    Object.keys(animator.channels).map((channel) => [
+      channel,
+      animator.keyframes
+        .filter((keyframe) => keyframe.channel === channel)
+        .sort((a, b) => a.time - b.time)
+        .map(serializeKeyframe),
+    ])
+  );
+
+  return {
+    uuid: animator.uuid,
+    name: name ?? null,
+    type: type ?? null,
+    muted: Object.keys(animator.muted ?? {}).filter((channel) => animator.muted[channel]),
+    channels,
+  };
+}
+
+/**
+ * Serializes an animation with the keyframes of every animator that has any, ordered by time.
+ */
+export function serializeAnimation(animation: BBAnimation) {
+  return {
+    uuid: animation.uuid,
+    name: animation.name,
+    path: animation.path || null,
+    loop: animation.loop,
+    length: animation.length,
+    snapping: animation.snapping,
+    override: animation.override,
+    anim_time_update: animation.anim_time_update || null,
+    blend_weight: animation.blend_weight || null,
+    start_delay: animation.start_delay || null,
+    loop_delay: animation.loop_delay || null,
+    selected: animation.selected,
+    animators: Object.values(animation.animators)
+      .filter((animator) => animator.keyframes.length > 0)
+      .map(serializeAnimator),
+  };
+}
@@ -1,4 +1,18 @@
-const INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+import type { ToolProfileId } from "@/lib/toolProfiles";
+
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 5;
+export const DEFAULT_SESSION_GRACE_MINUTES = 10;
+export const DEFAULT_KEEP_ALIVE_SECONDS = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Reads a minutes setting. Zero or negative values disable the feature.
+ */
+function getMinutesSetting(id: string, fallback: number): number {
+  const value = Number(Settings.get(id) ?? fallback);
+  return Number.isFinite(value) ? value : fallback;
+}
 
 export interface Session {
   id: string;
@@ -9,6 +23,20 @@ export interface Session {
   clientName?: string;
   /** Client version from MCP initialize request */
   clientVersion?: string;
+  /** Tool profile override for this session; follows the global profile when unset */
+  toolProfile?: ToolProfileId;
+  /** Lets `risky_eval` run outside the sandbox with full access; enabled from the panel only */
+  unsafeEval?: boolean;
+  /** Destructive tools the user chose to always allow for this session in approval mode */
+  approvedTools?: Set<string>;
+  /** UUID of the project this session's tool calls run against; follows the selected tab when unset */
+  projectUuid?: string;
+}
+
+interface ExpiredSession {
+  session: Session;
+  /** Drops the session once its grace period is over */
+  graceHandle: ReturnType<typeof setTimeout>;
 }
 
 type SessionListener = (sessions: Session[]) => void;
@@ -16,6 +44,8 @@ type RemovalCallback = (sessionId: string) => void;
 
 class SessionManager {
   private sessions: Map<string, Session> = new Map();
+  /** Timed-out sessions that can still be resumed with their old session ID */
+  private expiredSessions: Map<string, ExpiredSession> = new Map();
   private listeners: Set<SessionListener> = new Set();
   private removalCallback: RemovalCallback | null = null;
 
@@ -82,14 +112,102 @@ class SessionManager {
     }
   }
 
+  setToolProfile(sessionId: string, toolProfile?: ToolProfileId): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.toolProfile = toolProfile;
+      this.notifyListeners();
+    }
+  }
+
+  setUnsafeEval(sessionId: string, unsafeEval: boolean): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.unsafeEval = unsafeEval;
+      this.notifyListeners();
+    }
+  }
+
+  setProject(sessionId: string, projectUuid?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.projectUuid = projectUuid;
+      this.notifyListeners();
+    }
+  }
+
+  approveTool(sessionId: string, toolName: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.approvedTools ??= new Set();
+      session.approvedTools.add(toolName);
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * Reattaches a session that timed out less than a grace period ago, keeping its
+   * client info and per-session settings.
+   * @returns Whether the session was resumed
+   */
+  resume(sessionId: string): boolean {
+    const expired = this.expiredSessions.get(sessionId);
+    if (!expired) return false;
+
+    clearTimeout(expired.graceHandle);
+    this.expiredSessions.delete(sessionId);
+
+    const { session } = expired;
+    session.lastActivity = new Date();
+    this.resetTimeout(session);
+    this.sessions.set(sessionId, session);
+    this.notifyListeners();
+
+    console.log(`[MCP] Session resumed: ${sessionId.slice(0, 8)}...`);
+    return true;
+  }
+
+  /**
+   * Restarts every inactivity timer, e.g. after the timeout setting changed.
+   */
+  refreshTimeouts(): void {
+    for (const session of this.sessions.values()) {
+      this.resetTimeout(session);
+    }
+  }
+
   private resetTimeout(session: Session): void {
     if (session.timeoutHandle) {
       clearTimeout(session.timeoutHandle);
+      session.timeoutHandle = undefined;
     }
+
+    const timeoutMinutes = getMinutesSetting("mcp_session_timeout", DEFAULT_SESSION_TIMEOUT_MINUTES);
+    if (timeoutMinutes <= 0) return;
+
+    const remaining = session.lastActivity.getTime() + timeoutMinutes * MINUTE_MS - Date.now();
     session.timeoutHandle = setTimeout(() => {
       console.log(`[MCP] Session timed out: ${session.id.slice(0, 8)}...`);
-      this.remove(session.id);
-    }, INACTIVITY_TIMEOUT_MS);
+      this.expire(session);
+    }, Math.max(remaining, 0));
+  }
+
+  /**
+   * Removes a timed-out session, keeping it resumable during the grace period.
+   */
+  private expire(session: Session): void {
+    const graceMinutes = getMinutesSetting("mcp_session_grace_period", DEFAULT_SESSION_GRACE_MINUTES);
+
+    if (graceMinutes > 0) {
+      this.expiredSessions.set(session.id, {
+        session,
+        graceHandle: setTimeout(() => {
+          this.expiredSessions.delete(session.id);
+        }, graceMinutes * MINUTE_MS),
+      });
+    }
+
+    this.remove(session.id);
   }
 
   getAll(): Session[] {
@@ -104,6 +222,10 @@ class SessionManager {
     return this.sessions.has(sessionId);
   }
 
+  get(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
   subscribe(listener: SessionListener): () => void {
     this.listeners.add(listener);
     // Immediately call with current state
@@ -139,7 +261,11 @@ class SessionManager {
         clearTimeout(session.timeoutHandle);
       }
     }
+    for (const { graceHandle } of this.expiredSessions.values()) {
+      clearTimeout(graceHandle);
+    }
     this.sessions.clear();
+    this.expiredSessions.clear();
     this.listeners.clear();
   }
 }
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { MAX_REGION_OUTPUT_SIZE, readTexturePixels, summarizePixels } from "@/lib/texturePixels";
+
+/** Minimal 2D canvas that records its size and returns transparent pixels */
+function createFakeCanvas() {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({
+      imageSmoothingEnabled: true,
+      drawImage() {},
+      getImageData: (_x: number, _y: number, width: number, height: number) => ({
+        data: new Uint8ClampedArray(width * height * 4),
+      }),
+    }),
+    toDataURL: () => `data:image/png;base64,${canvas.width}x${canvas.height}`,
+  };
+  return canvas;
+}
+
+function createTexture(width: number, height: number) {
+  return { name: "large", width, height, canvas: createFakeCanvas() } as unknown as Texture;
+}
+
+describe("readTexturePixels", () => {
+  const originalDocument = globalThis.document;
+
+  beforeEach(() => {
+    // @ts-ignore - only createElement is used
+    globalThis.document = { createElement: createFakeCanvas };
+  });
+
+  afterEach(() => {
+    globalThis.document = originalDocument;
+  });
+
+  test("reads a 4096px texture at scale 1", () => {
+    const result = readTexturePixels(createTexture(4096, 4096));
+
+    expect(result.region).toEqual({ x: 0, y: 0, width: 4096, height: 4096 });
+    expect(result.dataUrl).toBe("data:image/png;base64,4096x4096");
+    expect(result.summary.transparentPixels).toBe(4096 * 4096);
+  });
+
+  test("rejects upscaled regions larger than the output limit", () => {
+    expect(() => readTexturePixels(createTexture(4096, 4096), { scale: 2 })).toThrow(
+      `The maximum is ${MAX_REGION_OUTPUT_SIZE}x${MAX_REGION_OUTPUT_SIZE}`
+    );
+  });
+
+  test("upscales regions within the output limit", () => {
+    const result = readTexturePixels(createTexture(64, 64), {
+      region: { x: 8, y: 8, width: 16, height: 16 },
+      scale: 4,
+    });
+
+    expect(result.region).toEqual({ x: 8, y: 8, width: 16, height: 16 });
+    expect(result.dataUrl).toBe("data:image/png;base64,64x64");
+  });
+});
+
+describe("summarizePixels", () => {
+  test("counts colors and transparent pixels", () => {
+    const data = new Uint8ClampedArray([
+      255, 0, 0, 255,
+      255, 0, 0, 255,
+      0, 0, 255, 128,
+      0, 0, 0, 0,
+    ]);
+
+    expect(summarizePixels(data)).toEqual({
+      pixels: 4,
+      transparentPixels: 1,
+      uniqueColors: 2,
+      palette: [
+        { color: "#ff0000ff", count: 2 },
+        { color: "#0000ff80", count: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/// <reference types="three" />
+/// <reference types="blockbench-types" />
+
+/**
+ * Reads texture pixels back as PNG images with a palette summary, for the `texture_pixels://`
+ * and `texture_layers://` resources and the `read_texture_region` and `get_texture` tools.
+ */
+
+/** Largest width or height of an image returned after upscaling. Unscaled reads are not limited. */
+export const MAX_REGION_OUTPUT_SIZE = 2048;
+
+/** Number of most frequent colors listed in a palette summary */
+const MAX_PALETTE_COLORS = 16;
+
+export interface TextureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PaletteSummary {
+  pixels: number;
+  transparentPixels: number;
+  uniqueColors: number;
+  /** Most frequent colors as `#rrggbbaa` with their pixel counts */
+  palette: { color: string; count: number }[];
+}
+
+export interface TexturePixels {
+  /** PNG data URL of the region, upscaled when requested */
+  dataUrl: string;
+  region: TextureRegion;
+  layer: string | null;
+  scale: number;
+  summary: PaletteSummary;
+}
+
+export interface TextureLayerInfo {
+  uuid: string;
+  name: string;
+  type: string;
+  /** UUID of the layer group containing the layer */
+  parent: string | null;
+  visible: boolean;
+  /** Opacity from 0 to 1 */
+  opacity: number | null;
+  blend_mode: string | null;
+  /** Position of the layer's top left corner in texture pixels */
+  offset: [number, number] | null;
+  width: number | null;
+  height: number | null;
+  selected: boolean;
+}
+
+/**
+ * Lists the layers of a texture from bottom to top, as they are composited.
+ * Returns an empty list when layers are not enabled on the texture.
+ */
+export function getTextureLayers(texture: Texture): TextureLayerInfo[] {
+  if (!texture.layers_enabled) return [];
+
+  return texture.layers.map((item) => {
+    const layer = item instanceof TextureLayer ? item : null;
+    return {
+      uuid: item.uuid,
+      name: item.name,
+      type: item.type,
+      parent: item.parent?.uuid ?? null,
+      visible: item.visible,
+      opacity: layer ? layer.opacity : null,
+      blend_mode: layer ? layer.blend_mode : null,
+      offset: layer ? [layer.offset[0], layer.offset[1]] : null,
+      width: layer ? layer.width : null,
+      height: layer ? layer.height : null,
+      selected: item.selected,
+    };
+  });
+}
+
+/**
+ * Finds a pixel layer of a texture by UUID or name.
+ * @throws Error when the texture has no layer with that name
+ */
+export function findTextureLayerOrThrow(texture: Texture, id: string): TextureLayer {
+  const layer = texture.layers.find(
+    (item): item is TextureLayer =>
+      item instanceof TextureLayer && (item.uuid === id || item.name === id)
+  );
+  if (!layer) {
+    throw new Error(
+      `Layer "${id}" not found on texture "${texture.name}". Use the get_texture tool to see its layers.`
+    );
+  }
+  return layer;
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(2, "0");
+}
+
+/**
+ * Counts the colors of RGBA pixel data. Fully transparent pixels are counted separately.
+ */
+export function summarizePixels(data: Uint8ClampedArray): PaletteSummary {
+  const counts = new Map<number, number>();
+  let transparentPixels = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      transparentPixels++;
+      continue;
+    }
+    const color = ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0;
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+  }
+
+  const palette = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PALETTE_COLORS)
+    .map(([color, count]) => ({
+      color: `#${toHex(color >>> 24)}${toHex((color >>> 16) & 255)}${toHex((color >>> 8) & 255)}${toHex(color & 255)}`,
+      count,
+    }));
+
+  return {
+    pixels: data.length / 4,
+    transparentPixels,
+    uniqueColors: counts.size,
+    palette,
+  };
+}
+
+/**
+ * Reads a rectangle of a texture, or of one of its layers, as a PNG image.
+ * The region is given in texture pixels and clipped to the texture; layer offsets are applied.
+ * @param options.region - Rectangle to read. Defaults to the whole texture.
+ * @param options.layer - UUID or name of a layer to read instead of the composited texture.
+ * @param options.scale - Integer factor for nearest-neighbor upscaling.
+ */
+export function readTexturePixels(
+  texture: Texture,
+  {
+    region,
+    layer: layerId,
+    scale = 1,
+  }: { region?: Partial<TextureRegion>; layer?: string; scale?: number } = {}
+): TexturePixels {
+  const x = Math.max(0, Math.floor(region?.x ?? 0));
+  const y = Math.max(0, Math.floor(region?.y ?? 0));
+  const width = Math.min(Math.floor(region?.width ?? texture.width), texture.width - x);
+  const height = Math.min(Math.floor(region?.height ?? texture.height), texture.height - y);
+
+  if (width <= 0 || height <= 0) {
+    throw new Error(
+      `Region is outside of texture "${texture.name}" (${texture.width}x${texture.height}).`
+    );
+  }
+  // Unscaled reads return the texture at its own size, however large it is
+  if (scale > 1 && (width * scale > MAX_REGION_OUTPUT_SIZE || height * scale > MAX_REGION_OUTPUT_SIZE)) {
+    throw new Error(
+      `Scaled region would be ${width * scale}x${height * scale} pixels. The maximum is ${MAX_REGION_OUTPUT_SIZE}x${MAX_REGION_OUTPUT_SIZE}; read a smaller region or lower the scale.`
+    );
+  }
+
+  const layer = layerId ? findTextureLayerOrThrow(texture, layerId) : null;
+  const [offsetX, offsetY] = layer ? layer.offset : [0, 0];
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  // Layer pixels outside the layer canvas stay transparent
+  ctx.drawImage(layer ? layer.canvas : texture.canvas, offsetX - x, offsetY - y);
+
+  const summary = summarizePixels(ctx.getImageData(0, 0, width, height).data);
+
+  let output = canvas;
+  if (scale > 1) {
+    output = document.createElement("canvas");
+    output.width = width * scale;
+    output.height = height * scale;
+    const outputCtx = output.getContext("2d")!;
+    outputCtx.imageSmoothingEnabled = false;
+    outputCtx.drawImage(canvas, 0, 0, output.width, output.height);
+  }
+
+  return {
+    dataUrl: output.toDataURL("image/png"),
+    region: { x, y, width, height },
+    layer: layer ? layer.name : null,
+    scale,
+    summary,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Named tool profiles that limit which tools are exposed to MCP clients.
+ *
+ * The global profile lives in the `mcp_tool_profile` setting. The "custom" profile
+ * exposes every tool except those listed in the `mcp_disabled_tools` setting, which
+ * is what the panel checkboxes edit. Sessions may override the global profile.
+ */
+import { tools } from "@/lib/factories";
+import { sessionManager } from "@/lib/sessions";
+import { parseList } from "@/lib/util";
+
+export type ToolProfileId = "all" | "modeling" | "texturing" | "no_eval" | "hytale" | "custom";
+
+export interface ToolProfile {
+  /** i18n key of the profile's display name */
+  name: string;
+  includes: (toolName: string) => boolean;
+}
+
+type ToolProfileListener = () => void;
+
+export const DEFAULT_TOOL_PROFILE: ToolProfileId = "all";
+
+/** Tools every focused profile keeps so clients can inspect the project */
+const CORE_TOOLS = [
+  "list_outline",
+  "list_textures",
+  "capture_screenshot",
+  "capture_app_screenshot",
+  "set_camera_angle",
+  "create_project",
+  "select_project",
+  "configure_project",
+  "save_project",
+  "open_project",
+  "close_project",
+  "export_project",
+  "lock_elements",
+  "unlock_elements",
+  "list_locks",
+];
+
+const MODELING_TOOLS = [
+  ...CORE_TOOLS,
+  "place_cube",
+  "modify_cube",
+  "remove_element",
+  "add_group",
+  "duplicate_element",
+  "rename_element",
+  "place_mesh",
+  "extrude_mesh",
+  "subdivide_mesh",
+  "create_sphere",
+  "create_cylinder",
+  "select_mesh_elements",
+  "move_mesh_vertices",
+  "delete_mesh_elements",
+  "merge_mesh_vertices",
+  "create_mesh_face",
+  "knife_tool",
+  "set_mesh_uv",
+  "auto_uv_mesh",
+  "rotate_mesh_uv",
+  "apply_texture",
+  "import_bedrock_geometry",
+  "from_geo_json",
+  "import_java_model",
+  "import_mesh_file",
+];
+
+const TEXTURING_TOOLS = [
+  ...CORE_TOOLS,
+  "create_texture",
+  "apply_texture",
+  "add_texture_group",
+  "get_texture",
+  "read_texture_region",
+  "create_pbr_material",
+  "configure_material",
+  "list_materials",
+  "get_material_info",
+  "import_texture_set",
+  "assign_texture_channel",
+  "save_material_config",
+  "paint_fill_tool",
+  "draw_shape_tool",
+  "gradient_tool",
+  "color_picker_tool",
+  "copy_brush_tool",
+  "eraser_tool",
+  "paint_settings",
+  "paint_with_brush",
+  "create_brush_preset",
+  "load_brush_preset",
+  "texture_selection",
+  "texture_layer_management",
+  "get_face_material_instances",
+  "set_face_material_instance",
+  "list_material_instances",
+  "bulk_set_material_instances",
+  "clear_material_instances",
+  "set_mesh_uv",
+  "auto_uv_mesh",
+  "rotate_mesh_uv",
+];
+
+const ANIMATION_TOOLS = [
+  "create_animation",
+  "manage_keyframes",
+  "animation_graph_editor",
+  "bone_rigging",
+  "animation_timeline",
+  "batch_keyframe_operations",
+  "animation_copy_paste",
+];
+
+export const TOOL_PROFILES: Record<ToolProfileId, ToolProfile> = {
+  all: {
+    name: "mcp.profiles.all",
+    includes: () => true,
+  },
+  modeling: {
+    name: "mcp.profiles.modeling",
+    includes: (toolName) => MODELING_TOOLS.includes(toolName),
+  },
+  texturing: {
+    name: "mcp.profiles.texturing",
+    includes: (toolName) => TEXTURING_TOOLS.includes(toolName),
+  },
+  no_eval: {
+    name: "mcp.profiles.no_eval",
+    includes: (toolName) => toolName !== "risky_eval",
+  },
+  hytale: {
+    name: "mcp.profiles.hytale",
+    includes: (toolName) =>
+      toolName.startsWith("hytale_") ||
+      MODELING_TOOLS.includes(toolName) ||
+      ANIMATION_TOOLS.includes(toolName),
+  },
+  custom: {
+    name: "mcp.profiles.custom",
+    includes: (toolName) => !getDisabledTools().includes(toolName),
+  },
+};
+
+const listeners: Set<ToolProfileListener> = new Set();
+
+function isToolProfileId(value: unknown): value is ToolProfileId {
+  return typeof value === "string" && value in TOOL_PROFILES;
+}
+
+/**
+ * Returns the global profile, falling back to the default for unknown values.
+ */
+export function getActiveToolProfile(): ToolProfileId {
+  const value = Settings.get("mcp_tool_profile");
+  return isToolProfileId(value) ? value : DEFAULT_TOOL_PROFILE;
+}
+
+/**
+ * Returns the tools switched off in the "custom" profile.
+ */
+export function getDisabledTools(): string[] {
+  return parseList(Settings.get("mcp_disabled_tools"));
+}
+
+/**
+ * Returns the profile in effect for a session: its override, or the global profile.
+ */
+export function getSessionToolProfile(sessionId?: string): ToolProfileId {
+  const override = sessionId ? sessionManager.get(sessionId)?.toolProfile : undefined;
+  return override ?? getActiveToolProfile();
+}
+
+/**
+ * Checks whether a tool is exposed to a session, or globally when no session is given.
+ */
+export function isToolEnabled(toolName: string, sessionId?: string): boolean {
+  return TOOL_PROFILES[getSessionToolProfile(sessionId)].includes(toolName);
+}
+
+/**
+ * Returns the display options for the profile select setting.
+ */
+export function getToolProfileOptions(): Record<ToolProfileId, string> {
+  return Object.fromEntries(
+    Object.entries(TOOL_PROFILES).map(([id, profile]) => [id, tl(profile.name)])
+  ) as Record<ToolProfileId, string>;
+}
+
+/**
+ * Switches the global profile.
+ */
+export function setActiveToolProfile(profileId: ToolProfileId): void {
+  // Setting.set() triggers the onChange handler, which notifies subscribers
+  settings.mcp_tool_profile?.set(profileId);
+}
+
+/**
+ * Toggles a single tool globally. The current selection is copied into the
+ * "custom" profile, which becomes active.
+ */
+export function setToolEnabled(toolName: string, enabled: boolean): void {
+  const disabled = Object.keys(tools).filter(
+    (name) => name !== toolName && !isToolEnabled(name)
+  );
+  if (!enabled) {
+    disabled.push(toolName);
+  }
+
+  settings.mcp_disabled_tools?.set(disabled.join(", "));
+  setActiveToolProfile("custom");
+}
+
+/**
+ * Overrides the profile for a single session. Pass `undefined` to follow the global profile again.
+ * Overrides last for the lifetime of the session and are not persisted.
+ */
+export function setSessionToolProfile(sessionId: string, profileId?: ToolProfileId): void {
+  sessionManager.setToolProfile(sessionId, profileId);
+  notifyToolProfileChange();
+}
+
+/**
+ * Subscribes to profile changes. The listener is called immediately.
+ */
+export function subscribeToolProfiles(listener: ToolProfileListener): () => void {
+  listeners.add(listener);
+  listener();
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Applies the global profile to the tool registry and notifies subscribers,
+ * which push the change to live sessions.
+ */
+export function notifyToolProfileChange(): void {
+  for (const tool of Object.values(tools)) {
+    tool.enabled = isToolEnabled(tool.name);
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error("[MCP] Tool profile listener error:", error);
+    }
+  });
+}
@@ -34,6 +34,102 @@ export function imageContent(
   };
 }
 
+/**
+ * Wraps a JSON-serializable object as structured tool output.
+ * The text fallback for clients without `outputSchema` support is added by the tool pipeline
+ * once the data has passed the tool's output schema.
+ * @param data - Object matching the tool's declared `outputSchema`
+ * @param images - Image content sent before the text fallback, e.g. from `imageContent()`
+ * @returns Formatted MCP tool result with structured content
+ */
+export function structuredResult<T extends Record<string, unknown>>(
+  data: T,
+  images: ReturnType<typeof imageContent>["content"] = []
+): { content: ReturnType<typeof imageContent>["content"]; structuredContent: T } {
+  return {
+    content: images,
+    structuredContent: data,
+  };
+}
+
+/**
+ * Formats schema validation issues as one line each, with the path in JSON notation
+ * (e.g. `bones[2].cubes[0].size: Expected array, received string`).
+ * @param maxIssues - Number of issues listed before the rest are summarized
+ */
+export function formatSchemaIssues(
+  issues: { path: (string | number)[]; message: string }[],
+  maxIssues = 10
+): string {
+  const lines = issues.slice(0, maxIssues).map(({ path, message }) => {
+    const location = path
+      .map((key, index) => (typeof key === "number" ? `[${key}]` : index === 0 ? key : `.${key}`))
+      .join("");
+    return `- ${location || "(root)"}: ${message}`;
+  });
+  if (issues.length > maxIssues) {
+    lines.push(`- ...and ${issues.length - maxIssues} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Splits a comma- or whitespace-separated setting value into lowercase entries.
+ * Trailing slashes are dropped so URL entries compare equal with or without them.
+ */
+export function parseList(value: unknown): string[] {
+  return String(value ?? "")
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim().toLowerCase().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Shortens text longer than `maxLength`, noting the original length.
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}… (${text.length} chars)`
+    : text;
+}
+
+/**
+ * Shortens long strings (e.g. base64 images or eval code) anywhere in tool arguments.
+ */
+export function summarizeArgs(value: unknown, maxLength: number): unknown {
+  if (typeof value === "string") return truncate(value, maxLength);
+  if (Array.isArray(value)) return value.map((entry) => summarizeArgs(entry, maxLength));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, summarizeArgs(entry, maxLength)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Yields to the event loop so queued notifications (e.g. progress) are flushed
+ * to the client and the UI can repaint between steps of a long-running tool.
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Stops a long-running tool between steps when the client cancelled the request.
+ * Reverts the tool's open `Undo.initEdit` so the project is left unchanged.
+ * @param signal - The cancellation signal from the tool context
+ * @throws If the signal has been aborted
+ */
+export function abortIfCancelled(signal: AbortSignal): void {
+  if (!signal.aborted) return;
+
+  Undo.cancelEdit(true);
+  Canvas.updateAll();
+
+  throw new Error("Tool execution was cancelled by the client. All changes were reverted.");
+}
+
 export function fixCircularReferences<
   T extends Record<string, any>,
   K extends keyof T,
@@ -93,14 +189,14 @@ export function getProjectTexture(id: string): Texture | null {
 // ============================================================================
 
 /**
- * Finds a group/bone by name and throws an actionable error if not found.
- * @param name - The name of the group/bone to find
+ * Finds a group/bone by name or UUID and throws an actionable error if not found.
+ * @param name - The name or UUID of the group/bone to find
  * @returns The found Group
  * @throws Error with suggestion to use list_outline
  */
 export function findGroupOrThrow(name: string): Group {
   // @ts-ignore - Group is globally available in Blockbench
-  const group = Group.all.find((g: Group) => g.name === name);
+  const group = Group.all.find((g: Group) => g.name === name || g.uuid === name);
   if (!group) {
     throw new Error(
       `Bone/group "${name}" not found. Use the list_outline tool to see available groups and bones.`
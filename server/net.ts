@@ -1,27 +1,68 @@
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
 import type { Server as NetServer, Socket } from 'node:net'
+import type { TlsOptions } from 'node:tls'
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   registerToolsOnServer,
   registerResourcesOnServer,
-  registerPromptsOnServer
+  registerPromptsOnServer,
+  setToolsEnabledOnServer
 } from '@/lib/factories'
 import { createServer as createMcpServer } from '@/server/server'
-import { sessionManager } from '@/lib/sessions'
+import { EmptyResultSchema } from '@modelcontextprotocol/sdk/types.js'
+import { sessionManager, DEFAULT_KEEP_ALIVE_SECONDS } from '@/lib/sessions'
+import { DEFAULT_HOST } from '@/lib/constants'
+import { isAuthorized } from '@/lib/auth'
+import { isToolEnabled, subscribeToolProfiles } from '@/lib/toolProfiles'
+import { enableResourceSubscriptions } from '@/lib/resourceSubscriptions'
+import {
+  isHostAllowed,
+  isOriginAllowed,
+  getCorsHeaders,
+  getPreflightHeaders
+} from '@/lib/origins'
 
 export type { NetServer }
 
+/** Addresses bound for the `localhost` host, so clients that resolve it to either family connect */
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1']
+
+/** How long a keep-alive ping waits for the client's answer */
+const KEEP_ALIVE_TIMEOUT_MS = 10 * 1000
+
+type ServerFactory = {
+  createServer: (callback: (socket: Socket) => void) => NetServer
+}
+
 export type SessionTransports = Map<
   string,
-  { transport: WebStandardStreamableHTTPServerTransport; server: McpServer }
+  {
+    transport: WebStandardStreamableHTTPServerTransport
+    server: McpServer
+    /** Whether responses are SSE streams, which server-initiated requests need */
+    streaming: boolean
+  }
 >
 
+/**
+ * Whether a fresh transport can be marked as initialized under a resumed session ID.
+ * The SDK has no API to restore a session, so resuming writes the transport's private
+ * `_initialized` flag (present up to at least SDK 1.25). If a later SDK drops the flag,
+ * timed-out sessions are not resumed and clients reconnect instead.
+ */
+const canResumeSessions = (() => {
+  const transport = new WebStandardStreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+  return typeof (transport as unknown as { _initialized?: unknown })._initialized === 'boolean'
+})()
+
 function getStatusText (status: number): string {
   const texts: Record<number, string> = {
     200: 'OK',
     201: 'Created',
     204: 'No Content',
     400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
     404: 'Not Found',
     405: 'Method Not Allowed',
     409: 'Conflict',
@@ -30,19 +71,79 @@ function getStatusText (status: number): string {
   return texts[status] || 'Unknown'
 }
 
+/**
+ * Builds a server factory that terminates TLS with a certificate and key read from disk.
+ * Requires the `tls` and `fs` native modules.
+ * @throws If either path is missing or cannot be read
+ */
+export function createTlsServerFactory ({
+  certPath,
+  keyPath
+}: {
+  certPath: string
+  keyPath: string
+}): ServerFactory {
+  if (!certPath || !keyPath) {
+    throw new Error('TLS is enabled but the certificate or key path is not set.')
+  }
+
+  // @ts-ignore - requireNativeModule is a Blockbench global
+  const fs = requireNativeModule('fs', {
+    message: 'File access is required to read the MCP server TLS certificate.',
+    optional: false
+  })
+  // @ts-ignore - requireNativeModule is a Blockbench global
+  const tls = requireNativeModule('tls', {
+    message: 'TLS access is required to serve the MCP server over HTTPS.',
+    optional: false
+  })
+
+  if (!fs || !tls) {
+    throw new Error('TLS requires the "fs" and "tls" native modules.')
+  }
+
+  for (const path of [certPath, keyPath]) {
+    if (!fs.existsSync(path)) {
+      throw new Error(`TLS file not found: ${path}`)
+    }
+  }
+
+  const options: TlsOptions = {
+    cert: fs.readFileSync(certPath),
+    key: fs.readFileSync(keyPath)
+  }
+  // Fail now rather than when the server starts if the PEM files are invalid or don't match
+  try {
+    tls.createSecureContext(options)
+  } catch (error) {
+    throw new Error(`Invalid TLS certificate or key: ${(error as Error).message}`)
+  }
+
+  return {
+    createServer: (callback: (socket: Socket) => void) =>
+      tls.createServer(options, callback)
+  }
+}
+
 export default function createNetServer (
-  {
-    createServer
-  }: { createServer: (callback: (socket: Socket) => void) => NetServer },
+  { createServer }: ServerFactory,
   {
     port,
-    endpoint
+    endpoint,
+    host = DEFAULT_HOST,
+    secure = false
   }: {
     endpoint: string
     port: number
     host?: string
+    secure?: boolean
   }
-): [NetServer, SessionTransports] {
+): [NetServer[], SessionTransports] {
+  const scheme = secure ? 'https' : 'http'
+  // Bracket IPv6 literals so the address can be used in a URL
+  const toUrlHost = (address: string) => (address.includes(':') ? `[${address}]` : address)
+  const urlHost = toUrlHost(host)
+
   const sessionTransports: SessionTransports = new Map()
 
   // Register callback to close transport when sessionManager removes a session (e.g., timeout)
@@ -60,7 +161,80 @@ export default function createNetServer (
     }
   })
 
-  const httpServer = createServer((socket: Socket) => {
+  /**
+   * Creates a session's server and transport, with all tools, resources and prompts registered.
+   * @param resumedSessionId - ID of a timed-out session to reattach instead of waiting for initialize
+   */
+  async function createSession (resumedSessionId?: string) {
+    const sessionServer = createMcpServer()
+
+    // Register all tools, resources, and prompts on this session's server
+    registerToolsOnServer(sessionServer, (name: string) => isToolEnabled(name, resumedSessionId))
+    registerResourcesOnServer(sessionServer)
+    registerPromptsOnServer(sessionServer)
+    enableResourceSubscriptions(sessionServer)
+
+    // Plain JSON responses unless SSE streaming is enabled, which is
+    // required to deliver progress notifications while a tool runs
+    const streaming = Boolean(Settings.get('mcp_stream_responses'))
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      enableJsonResponse: !streaming,
+      onsessioninitialized: (newSessionId: string) => {
+        console.log(
+          `[MCP] Session initialized: ${newSessionId.slice(0, 8)}...`
+        )
+        sessionManager.add(newSessionId)
+        // Update the map with the actual session ID
+        const sess = sessionTransports.get('__pending__')
+        if (sess) {
+          sessionTransports.delete('__pending__')
+          sessionTransports.set(newSessionId, sess)
+
+          // Hook into oninitialized to capture client info
+          const underlyingServer = sess.server.server
+          underlyingServer.oninitialized = () => {
+            const clientInfo = underlyingServer.getClientVersion()
+            if (clientInfo) {
+              sessionManager.updateClientInfo(
+                newSessionId,
+                clientInfo.name,
+                clientInfo.version
+              )
+            }
+          }
+        }
+      },
+      onsessionclosed: (closedSessionId: string) => {
+        console.log(
+          `[MCP] Session closed: ${closedSessionId.slice(0, 8)}...`
+        )
+        // Delete from sessionTransports BEFORE calling sessionManager.remove()
+        // to prevent the removal callback from trying to close an already-closing transport
+        sessionTransports.delete(closedSessionId)
+        sessionManager.remove(closedSessionId)
+      }
+    })
+
+    if (resumedSessionId) {
+      // Only reached when canResumeSessions is true. The client skips initialize
+      // when it resumes, so the fresh transport is marked as initialized under the old ID.
+      transport.sessionId = resumedSessionId
+      ;(transport as unknown as { _initialized: boolean })._initialized = true
+    }
+
+    // Connect this session's server to its transport
+    await sessionServer.connect(transport)
+
+    const session = { transport, server: sessionServer, streaming }
+
+    // Store with a temporary key until the session ID is known (updated in the callback)
+    sessionTransports.set(resumedSessionId ?? '__pending__', session)
+
+    return session
+  }
+
+  const handleConnection = (socket: Socket) => {
     let buffer = Buffer.alloc(0)
     let socketEnded = false
 
@@ -139,7 +313,7 @@ export default function createNetServer (
         buffer = buffer.subarray(requestEnd)
 
         // Build Web Standard Request
-        const url = `http://localhost:${port}${path}`
+        const url = `${scheme}://${urlHost}:${port}${path}`
         const webHeaders = new Headers()
         for (const [key, value] of Object.entries(headers)) {
           webHeaders.set(key, value)
@@ -174,13 +348,81 @@ export default function createNetServer (
           continue
         }
 
+        // Reject unknown hosts and origins to prevent DNS-rebinding attacks
+        const origin = headers['origin']
+        if (!isHostAllowed(headers['host']) || !isOriginAllowed(origin)) {
+          console.log(
+            `[MCP] Rejected request from host "${headers['host'] ?? ''}" origin "${origin ?? ''}"`
+          )
+          sendResponse(
+            socket,
+            403,
+            { 'content-type': 'application/json' },
+            JSON.stringify({
+              jsonrpc: '2.0',
+              error: {
+                code: -32000,
+                message: 'Forbidden. Host or origin is not in the allowlist.'
+              },
+              id: null
+            }),
+            headers['connection']
+          )
+          continue
+        }
+
+        const corsHeaders = getCorsHeaders(origin)
+
+        // Answer CORS preflight requests before authentication since browsers
+        // never attach credentials to them
+        if (method === 'OPTIONS') {
+          sendResponse(
+            socket,
+            204,
+            getPreflightHeaders(origin),
+            '',
+            headers['connection']
+          )
+          continue
+        }
+
+        // Reject requests without a valid bearer token before touching any session
+        if (!isAuthorized(headers['authorization'])) {
+          console.log(`[MCP] Rejected unauthorized request: ${method} ${path}`)
+          sendResponse(
+            socket,
+            401,
+            {
+              ...corsHeaders,
+              'content-type': 'application/json',
+              'www-authenticate': 'Bearer realm="blockbench-mcp"'
+            },
+            JSON.stringify({
+              jsonrpc: '2.0',
+              error: {
+                code: -32001,
+                message: 'Unauthorized. Provide a valid "Authorization: Bearer <token>" header.'
+              },
+              id: null
+            }),
+            headers['connection']
+          )
+          continue
+        }
+
         try {
           // Get or create transport for this session
           const sessionId = headers['mcp-session-id']
           let session = sessionId ? sessionTransports.get(sessionId) : null
 
+          // A client presenting a session that timed out during the grace period
+          // is reattached to a fresh transport under its old session ID
+          if (sessionId && !session && canResumeSessions && sessionManager.resume(sessionId)) {
+            session = await createSession(sessionId)
+          }
+
           // If client provided a session ID but it's not found, reject with 409
-          // This happens when the session timed out or was closed
+          // This happens when the session was closed or its grace period is over
           if (sessionId && !session) {
             console.log(
               `[MCP] Invalid session ID: ${sessionId.slice(0, 8)}... (session expired or not found)`
@@ -188,7 +430,7 @@ export default function createNetServer (
             sendResponse(
               socket,
               409,
-              { 'content-type': 'application/json' },
+              { ...corsHeaders, 'content-type': 'application/json' },
               JSON.stringify({
                 jsonrpc: '2.0',
                 error: {
@@ -204,61 +446,7 @@ export default function createNetServer (
 
           // If no session exists, create a new one with its own server and transport
           if (!session) {
-            const sessionServer = createMcpServer()
-
-            // Register all tools, resources, and prompts on this session's server
-            registerToolsOnServer(sessionServer)
-            registerResourcesOnServer(sessionServer)
-            registerPromptsOnServer(sessionServer)
-
-            const transport = new WebStandardStreamableHTTPServerTransport({
-              sessionIdGenerator: () => crypto.randomUUID(),
-              enableJsonResponse: true,
-              onsessioninitialized: (newSessionId: string) => {
-                console.log(
-                  `[MCP] Session initialized: ${newSessionId.slice(0, 8)}...`
-                )
-                sessionManager.add(newSessionId)
-                // Update the map with the actual session ID
-                const sess = sessionTransports.get('__pending__')
-                if (sess) {
-                  sessionTransports.delete('__pending__')
-                  sessionTransports.set(newSessionId, sess)
-
-                  // Hook into oninitialized to capture client info
-                  const underlyingServer = sess.server.server
-                  underlyingServer.oninitialized = () => {
-                    const clientInfo = underlyingServer.getClientVersion()
-                    if (clientInfo) {
-                      sessionManager.updateClientInfo(
-                        newSessionId,
-                        clientInfo.name,
-                        clientInfo.version
-                      )
-                    }
-                  }
-                }
-              },
-              onsessionclosed: (closedSessionId: string) => {
-                console.log(
-                  `[MCP] Session closed: ${closedSessionId.slice(0, 8)}...`
-                )
-                // Delete from sessionTransports BEFORE calling sessionManager.remove()
-                // to prevent the removal callback from trying to close an already-closing transport
-                sessionTransports.delete(closedSessionId)
-                sessionManager.remove(closedSessionId)
-              }
-            })
-
-            // Connect this session's server to its transport
-            await sessionServer.connect(transport)
-
-            session = { transport, server: sessionServer }
-
-            // Store with a temporary key if no session ID yet (will be updated in callback)
-            if (!sessionId) {
-              sessionTransports.set('__pending__', session)
-            }
+            session = await createSession()
           }
 
           // Update session activity
@@ -270,7 +458,7 @@ export default function createNetServer (
           const webResponse = await session.transport.handleRequest(webRequest)
 
           // Convert Web Standard Response to HTTP
-          const responseHeaders: Record<string, string> = {}
+          const responseHeaders: Record<string, string> = { ...corsHeaders }
           webResponse.headers.forEach((value: string, key: string) => {
             responseHeaders[key] = value
           })
@@ -329,7 +517,7 @@ export default function createNetServer (
           sendResponse(
             socket,
             500,
-            { 'content-type': 'application/json' },
+            { ...corsHeaders, 'content-type': 'application/json' },
             JSON.stringify({ error: String(error) }),
             headers['connection']
           )
@@ -411,16 +599,68 @@ export default function createNetServer (
 
       return true
     }
-  })
+  }
+
+  // `localhost` listens on both loopback addresses; the first one is required
+  const addresses = host === 'localhost' ? LOOPBACK_ADDRESSES : [host]
+  const servers = addresses.map((address, index) => {
+    const server = createServer(handleConnection)
 
-  httpServer.listen(port, () => {
-    console.log(`[MCP] Server listening on http://localhost:${port}${endpoint}`)
+    server.listen(port, address, () => {
+      console.log(`[MCP] Server listening on ${scheme}://${toUrlHost(address)}:${port}${endpoint}`)
+    })
+    server.on('error', (err: Error) => {
+      if (index > 0) {
+        // e.g. IPv6 is disabled on this machine
+        console.warn(`[MCP] Could not listen on ${toUrlHost(address)}:`, err.message)
+        return
+      }
+      console.error('[MCP] Server error:', err)
+      Blockbench.showQuickMessage(`MCP Server error: ${err.message}`, 3000)
+    })
+    return server
   })
+  const [httpServer] = servers
 
-  httpServer.on('error', (err: Error) => {
-    console.error('[MCP] Server error:', err)
-    Blockbench.showQuickMessage(`MCP Server error: ${err.message}`, 3000)
+  // Push tool profile changes to live sessions; each affected client gets tools/list_changed
+  const unsubscribeToolProfiles = subscribeToolProfiles(() => {
+    for (const [sessionId, { server }] of sessionTransports) {
+      setToolsEnabledOnServer(server, (name: string) => isToolEnabled(name, sessionId))
+    }
   })
+  httpServer.on('close', unsubscribeToolProfiles)
+
+  // Ping clients that are connected but idle (e.g. while the agent is thinking).
+  // A client that answers counts as active, so its session does not time out.
+  // Server-initiated requests need an SSE stream, so JSON-response sessions are not pinged.
+  let keepAliveHandle: ReturnType<typeof setTimeout> | undefined
+  const scheduleKeepAlive = () => {
+    const seconds = Number(Settings.get('mcp_keep_alive_interval') ?? DEFAULT_KEEP_ALIVE_SECONDS)
+    const enabled = Number.isFinite(seconds) && seconds > 0
+
+    keepAliveHandle = setTimeout(async () => {
+      // Stop once the server was closed, even while sockets are still draining
+      if (!httpServer.listening) return
+      if (enabled) {
+        await Promise.all(
+          Array.from(sessionTransports, async ([sessionId, { server, streaming }]) => {
+            if (!streaming || !sessionManager.has(sessionId)) return
+            try {
+              await server.server.request({ method: 'ping' }, EmptyResultSchema, {
+                timeout: KEEP_ALIVE_TIMEOUT_MS
+              })
+              sessionManager.updateActivity(sessionId)
+            } catch {
+              // Clients that have not opened their SSE stream cannot receive pings
+            }
+          })
+        )
+      }
+      scheduleKeepAlive()
+    }, (enabled ? seconds : DEFAULT_KEEP_ALIVE_SECONDS) * 1000)
+  }
+  scheduleKeepAlive()
+  httpServer.on('close', () => clearTimeout(keepAliveHandle))
 
-  return [httpServer, sessionTransports]
+  return [servers, sessionTransports]
 }
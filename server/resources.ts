@@ -1,6 +1,15 @@
 /// <reference types="three" />
 /// <reference types="blockbench-types" />
 import { createResource } from "@/lib/factories";
+import { PROJECT_CONTENT_EVENTS } from "@/lib/resourceSubscriptions";
+import { getTextureLayers, readTexturePixels } from "@/lib/texturePixels";
+import { getProjectTexture } from "@/lib/util";
+import {
+  getHierarchyPath,
+  serializeAnimation,
+  serializeElement,
+  serializeGroup,
+} from "@/lib/serializers";
 
 // Register projects resource using the factory pattern
 createResource("projects", {
@@ -8,6 +17,13 @@ createResource("projects", {
   title: "Blockbench Projects",
   description:
     "Returns information about available projects in Blockbench. Use without an ID to list all projects, or provide a project UUID/name to get details about a specific project.",
+  updatedOn: [
+    "select_project",
+    "new_project",
+    "close_project",
+    "finish_edit",
+    "saved_state_changed",
+  ],
   async listCallback() {
     const projects = ModelProject.all;
     if (!projects || projects.length === 0) {
@@ -100,6 +116,7 @@ createResource("nodes", {
   uriTemplate: "nodes://{id}",
   title: "Blockbench Nodes",
   description: "Returns the current nodes in the Blockbench editor.",
+  updatedOn: [...PROJECT_CONTENT_EVENTS, "update_selection"],
   async listCallback() {
     if (!Project?.nodes_3d) {
       return { resources: [] };
@@ -147,11 +164,174 @@ createResource("nodes", {
   },
 });
 
+createResource("elements", {
+  uriTemplate: "elements://{id}",
+  title: "Blockbench Elements",
+  description:
+    "Returns full geometry of elements in the current Blockbench project. Cubes include from/to, origin, rotation, inflate and per-face UV and texture. Meshes include vertices and faces. Use without an ID to list all elements, or provide an element UUID/name to get a specific element.",
+  updatedOn: PROJECT_CONTENT_EVENTS,
+  async listCallback() {
+    const elements = Outliner?.elements ?? [];
+    return {
+      resources: elements.map((element) => ({
+        uri: `elements://${element.uuid}`,
+        name: element.name || element.uuid,
+        description: `${element.type} in ${getHierarchyPath(element).join("/")}`,
+        mimeType: "application/json",
+      })),
+    };
+  },
+  async readCallback(uri, { id }) {
+    const elements = Outliner?.elements ?? [];
+
+    if (id) {
+      const element = elements.find((el) => el.uuid === id || el.name === id);
+      if (!element) {
+        throw new Error(
+          `Element "${id}" not found. Use the list_outline tool to see available elements.`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeElement(element)),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify({
+            elements: elements.map(serializeElement),
+            count: elements.length,
+          }),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  },
+});
+
+createResource("groups", {
+  uriTemplate: "groups://{id}",
+  title: "Blockbench Groups",
+  description:
+    "Returns groups (bones) in the current Blockbench project with pivot, rotation, children and hierarchy path. Use without an ID to list all groups, or provide a group UUID/name to get a specific group.",
+  updatedOn: PROJECT_CONTENT_EVENTS,
+  async listCallback() {
+    const groups = Project ? Group.all : [];
+    return {
+      resources: groups.map((group) => ({
+        uri: `groups://${group.uuid}`,
+        name: group.name || group.uuid,
+        description: `Group at ${getHierarchyPath(group).join("/")}`,
+        mimeType: "application/json",
+      })),
+    };
+  },
+  async readCallback(uri, { id }) {
+    const groups = Project ? Group.all : [];
+
+    if (id) {
+      const group = groups.find((g) => g.uuid === id || g.name === id);
+      if (!group) {
+        throw new Error(
+          `Group "${id}" not found. Use the list_outline tool to see available groups and bones.`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeGroup(group)),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify({
+            groups: groups.map(serializeGroup),
+            count: groups.length,
+          }),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  },
+});
+
+createResource("animations", {
+  uriTemplate: "animations://{id}",
+  title: "Blockbench Animations",
+  description:
+    "Returns animations in the current Blockbench project with length, loop mode, snapping and the keyframes of each animator per channel, including time, data points, interpolation and bezier handles. Use without an ID to list all animations, or provide an animation UUID/name to get a specific animation.",
+  updatedOn: [...PROJECT_CONTENT_EVENTS, "load_animation"],
+  async listCallback() {
+    // @ts-ignore - Blockbench's Animation global is shadowed by the DOM Animation type
+    const animations: BBAnimation[] = Project ? Animation.all : [];
+    return {
+      resources: animations.map((animation) => ({
+        uri: `animations://${animation.uuid}`,
+        name: animation.name || animation.uuid,
+        description: `${animation.length}s, ${animation.loop}`,
+        mimeType: "application/json",
+      })),
+    };
+  },
+  async readCallback(uri, { id }) {
+    // @ts-ignore - Blockbench's Animation global is shadowed by the DOM Animation type
+    const animations: BBAnimation[] = Project ? Animation.all : [];
+
+    if (id) {
+      const animation = animations.find((a) => a.uuid === id || a.name === id);
+      if (!animation) {
+        throw new Error(`Animation "${id}" not found.`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeAnimation(animation)),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify({
+            animations: animations.map(serializeAnimation),
+            count: animations.length,
+          }),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  },
+});
+
 createResource("textures", {
   uriTemplate: "textures://{id}",
   title: "Blockbench Textures",
   description:
     "Returns information about textures in the current Blockbench project. Use without an ID to list all textures, or provide a texture UUID/name to get details about a specific texture.",
+  updatedOn: [...PROJECT_CONTENT_EVENTS, "add_texture", "change_texture_path"],
   async listCallback() {
     const textures = Project?.textures ?? [];
     if (textures.length === 0) {
@@ -201,6 +381,8 @@ createResource("textures", {
       saved: texture.saved ?? false,
       selected: texture.selected ?? false,
       source: texture.source || null,
+      layers_enabled: texture.layers_enabled ?? false,
+      layers: getTextureLayers(texture),
     });
 
     // If ID provided, find specific texture
@@ -240,12 +422,111 @@ createResource("textures", {
   },
 });
 
+createResource("texture_pixels", {
+  uriTemplate: "texture_pixels://{id}",
+  title: "Texture Pixels",
+  description:
+    "Returns the pixels of a texture in the current Blockbench project as a PNG image, followed by a JSON palette summary of its most frequent colors. Provide a texture UUID/name.",
+  updatedOn: [...PROJECT_CONTENT_EVENTS, "add_texture", "change_texture_path"],
+  async listCallback() {
+    const textures = Project?.textures ?? [];
+    return {
+      resources: textures.map((texture) => ({
+        uri: `texture_pixels://${texture.uuid}`,
+        name: texture.name || texture.uuid,
+        description: `${texture.width}x${texture.height} PNG`,
+        mimeType: "image/png",
+      })),
+    };
+  },
+  async readCallback(uri, { id }) {
+    const texture = getProjectTexture(id as string);
+    if (!texture) {
+      throw new Error(`Texture with ID "${id}" not found.`);
+    }
+
+    const { dataUrl, summary } = readTexturePixels(texture);
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          blob: dataUrl.slice(dataUrl.indexOf(",") + 1),
+          mimeType: "image/png",
+        },
+        {
+          uri: uri.href,
+          text: JSON.stringify({
+            uuid: texture.uuid,
+            name: texture.name,
+            width: texture.width,
+            height: texture.height,
+            ...summary,
+          }),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  },
+});
+
+createResource("texture_layers", {
+  uriTemplate: "texture_layers://{id}/{layer}",
+  title: "Texture Layers",
+  description:
+    "Returns one layer of a layered texture as a PNG image the size of the texture, with the layer drawn at its offset, followed by a JSON palette summary. Provide a texture UUID/name and a layer UUID/name.",
+  updatedOn: PROJECT_CONTENT_EVENTS,
+  async listCallback() {
+    const textures = Project?.textures ?? [];
+    return {
+      resources: textures.flatMap((texture) =>
+        getTextureLayers(texture)
+          .filter(({ width }) => width !== null)
+          .map((layer) => ({
+            uri: `texture_layers://${texture.uuid}/${layer.uuid}`,
+            name: `${texture.name}: ${layer.name}`,
+            description: `Layer of ${texture.name}, ${layer.blend_mode} at ${Math.round((layer.opacity ?? 1) * 100)}% opacity`,
+            mimeType: "image/png",
+          }))
+      ),
+    };
+  },
+  async readCallback(uri, { id, layer }) {
+    const texture = getProjectTexture(id);
+    if (!texture) {
+      throw new Error(`Texture with ID "${id}" not found.`);
+    }
+
+    const { dataUrl, summary } = readTexturePixels(texture, { layer });
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          blob: dataUrl.slice(dataUrl.indexOf(",") + 1),
+          mimeType: "image/png",
+        },
+        {
+          uri: uri.href,
+          text: JSON.stringify({
+            texture: texture.uuid,
+            layer: getTextureLayers(texture).find(
+              (info) => info.uuid === layer || info.name === layer
+            ),
+            ...summary,
+          }),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  },
+});
+
 if (Plugins.installed.some((p: { id: string }) => p.id === "reference_models")) {
   createResource("reference_models", {
     uriTemplate: "reference_models://{id}",
     title: "Reference Models",
     description:
       "Returns information about reference models in the current Blockbench project. Requires the Reference Models plugin. Use without an ID to list all reference models, or provide a UUID/name to get details about a specific reference model.",
+    updatedOn: PROJECT_CONTENT_EVENTS,
     async listCallback() {
       const elements = Outliner?.elements ?? [];
       const referenceModels = elements.filter(
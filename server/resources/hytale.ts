@@ -2,6 +2,7 @@
 /// <reference types="blockbench-types" />
 
 import { createResource } from "@/lib/factories";
+import { PROJECT_CONTENT_EVENTS } from "@/lib/resourceSubscriptions";
 import {
   isHytalePluginInstalled,
   isHytaleFormat,
@@ -38,6 +39,7 @@ export function registerHytaleResources() {
     title: "Hytale Format Information",
     description:
       "Returns comprehensive information about the current Hytale format, including format type, block size, node limits, and feature support.",
+    updatedOn: ["select_project", "select_format", "convert_format"],
     async listCallback() {
       if (!isHytaleFormat()) {
         return { resources: [] };
@@ -116,6 +118,7 @@ export function registerHytaleResources() {
     title: "Hytale Attachments",
     description:
       "Returns information about attachment collections in the current Hytale project. Attachments are separate models that can be attached to bones.",
+    updatedOn: PROJECT_CONTENT_EVENTS,
     async listCallback() {
       if (!isHytaleFormat()) {
         return { resources: [] };
@@ -204,6 +207,7 @@ export function registerHytaleResources() {
     title: "Hytale Attachment Pieces",
     description:
       "Returns information about groups marked as attachment pieces. Attachment pieces connect to like-named bones in the main model.",
+    updatedOn: PROJECT_CONTENT_EVENTS,
     async listCallback() {
       if (!isHytaleFormat()) {
         return { resources: [] };
@@ -291,6 +295,7 @@ export function registerHytaleResources() {
     title: "Hytale Cubes",
     description:
       "Returns information about cubes with Hytale-specific properties (shading_mode, double_sided, stretch).",
+    updatedOn: [...PROJECT_CONTENT_EVENTS, "update_selection"],
     async listCallback() {
       if (!isHytaleFormat()) {
         return { resources: [] };
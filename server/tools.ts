@@ -9,6 +9,7 @@ import { registerAnimationTools } from "./tools/animation";
 import { registerCubesTools } from "./tools/cubes";
 import { registerElementTools } from "./tools/element";
 import { registerImportTools } from "./tools/import";
+import { registerLockTools } from "./tools/locks";
 import { registerMeshTools } from "./tools/mesh";
 import { registerPaintTools } from "./tools/paint";
 import { registerProjectTools } from "./tools/project";
@@ -29,6 +30,7 @@ const registrationFunctions = [
   registerCubesTools,
   registerElementTools,
   registerImportTools,
+  registerLockTools,
   registerMaterialInstanceTools,
   registerMeshTools,
   registerPaintTools,
@@ -2,7 +2,7 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { findGroupOrThrow } from "@/lib/util";
+import { findGroupOrThrow, yieldToEventLoop, abortIfCancelled } from "@/lib/util";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
 import {
   vector3Schema,
@@ -758,7 +758,10 @@ createTool(
         .optional()
         .describe("Operation-specific parameters."),
     }),
-    async execute({ selection, range, pattern, operation, parameters = {} }) {
+    async execute(
+      { selection, range, pattern, operation, parameters = {} },
+      { reportProgress, signal }
+    ) {
       if (!Animation.selected) {
         throw new Error("No animation selected.");
       }
@@ -799,8 +802,10 @@ createTool(
         throw new Error("No keyframes found matching selection criteria.");
       }
 
+      // Copy so keyframes created by baking can be added to the edit without touching the timeline
+      const editedKeyframes = keyframes.slice();
       Undo.initEdit({
-        keyframes: keyframes,
+        keyframes: editedKeyframes,
       });
 
       switch (operation) {
@@ -865,8 +870,10 @@ createTool(
           const interval =
             parameters.bake_interval || 1 / Animation.selected.snapping;
           const animators = new Set(keyframes.map((kf) => kf.animator));
+          let bakedAnimators = 0;
 
-          animators.forEach((animator) => {
+          for (const animator of animators) {
+            abortIfCancelled(signal);
             const channels = ["rotation", "position", "scale"];
             channels.forEach((channel) => {
               const channelKfs = animator[channel];
@@ -880,24 +887,30 @@ createTool(
                   !channelKfs.find((kf) => Math.abs(kf.time - time) < 0.001)
                 ) {
                   Timeline.time = time;
-                  animator.fillValues(
-                    animator.createKeyframe(
-                      {
-                        time,
-                        channel,
-                        values: animator.interpolate(channel, true),
-                      },
+                  const keyframe = animator.createKeyframe(
+                    {
                       time,
                       channel,
-                      false
-                    ),
-                    null,
+                      values: animator.interpolate(channel, true),
+                    },
+                    time,
+                    channel,
                     false
                   );
+                  animator.fillValues(keyframe, null, false);
+                  editedKeyframes.push(keyframe);
                 }
               }
             });
-          });
+
+            bakedAnimators++;
+            reportProgress({
+              progress: bakedAnimators,
+              total: animators.size,
+              message: `Baked ${animator.name}`,
+            });
+            await yieldToEventLoop();
+          }
           break;
       }
 
@@ -2,7 +2,8 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { findElementOrThrow } from "@/lib/util";
+import { findElementOrThrow, findGroupOrThrow, structuredResult } from "@/lib/util";
+import { summarizeNode } from "@/lib/serializers";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
 import {
   elementIdSchema,
@@ -10,6 +11,90 @@ import {
   autoUvEnum,
 } from "@/lib/zodObjects";
 
+const DEFAULT_OUTLINE_PAGE_SIZE = 100;
+const MAX_OUTLINE_PAGE_SIZE = 500;
+
+type OutlineNode = ReturnType<typeof summarizeNode> & {
+  matchesFilter: boolean;
+  children?: OutlineNode[];
+};
+
+const outlineNodeSchema: z.ZodType<OutlineNode> = z.lazy(() =>
+  z.object({
+    uuid: z.string(),
+    name: z.string(),
+    type: z.string(),
+    parent: z.string().nullable().describe("UUID of the parent group, null at the root."),
+    path: z.array(z.string()).describe("Names from the root down to this node."),
+    matchesFilter: z
+      .boolean()
+      .describe("False for groups that are only listed because they contain matches."),
+    origin: vector3Schema.nullable(),
+    rotation: vector3Schema.nullable(),
+    visibility: z.boolean(),
+    locked: z.boolean(),
+    from: vector3Schema.nullable().optional(),
+    to: vector3Schema.nullable().optional(),
+    vertexCount: z.number().optional(),
+    faceCount: z.number().optional(),
+    textures: z.array(z.string()).optional().describe("UUIDs of the textures on the faces."),
+    childCount: z.number().optional().describe("Number of direct children of a group, listed or not."),
+    children: z.array(outlineNodeSchema).optional(),
+  })
+) as z.ZodType<OutlineNode>;
+
+/**
+ * Converts a name pattern with * and ? wildcards to a case-insensitive regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Walks the outliner depth-first and returns the nodes that match, along with the groups
+ * that contain matches, in outliner order.
+ */
+function collectOutline(
+  nodes: OutlinerNode[],
+  matches: (node: OutlinerNode) => boolean
+): { node: OutlinerNode; matchesFilter: boolean }[] {
+  return nodes.flatMap((node) => {
+    const descendants = node instanceof Group ? collectOutline(node.children, matches) : [];
+    const matchesFilter = matches(node);
+    return matchesFilter || descendants.length > 0
+      ? [{ node, matchesFilter }, ...descendants]
+      : [];
+  });
+}
+
+/**
+ * Nests a page of collected nodes under their listed parents.
+ * Nodes whose parent is on an earlier page appear at the top level.
+ */
+function buildOutlineTree(page: { node: OutlinerNode; matchesFilter: boolean }[]): OutlineNode[] {
+  const byUuid = new Map<string, OutlineNode>();
+  const roots: OutlineNode[] = [];
+
+  for (const { node, matchesFilter } of page) {
+    const entry: OutlineNode = { ...summarizeNode(node), matchesFilter };
+    if (node instanceof Group) entry.children = [];
+    byUuid.set(node.uuid, entry);
+
+    const parent = entry.parent ? byUuid.get(entry.parent) : undefined;
+    if (parent) {
+      parent.children!.push(entry);
+    } else {
+      roots.push(entry);
+    }
+  }
+
+  return roots;
+}
+
 export function registerElementTools() {
   createTool(
   "remove_element",
@@ -108,26 +193,70 @@ export function registerElementTools() {
     "list_outline",
     {
       description:
-        "Returns a list of all groups and their children in the Blockbench editor.",
+        "Returns the outliner tree of groups and elements with their type, transform, visibility, locked state and textures. Cubes include from/to, meshes include vertex and face counts. Filter by type, name pattern, parent group or selection; groups that contain matches are kept to preserve the hierarchy. Large models are paginated: pass nextCursor as cursor to get the next page.",
       annotations: {
         title: "List Outline",
         readOnlyHint: true,
       },
-      parameters: z.object({}),
-      async execute() {
-        const elements = Outliner.elements;
-
-        return JSON.stringify(
-          elements.map((element) => {
-            const { name, uuid } = element;
-            return {
-              name,
-              uuid,
-            };
-          }),
-          null,
-          2
-        );
+      parameters: z.object({
+        types: z
+          .array(z.string())
+          .optional()
+          .describe('Only match nodes of these types, e.g. ["cube", "mesh"] or ["group"].'),
+        name: z
+          .string()
+          .optional()
+          .describe("Case-insensitive name pattern. * matches any characters and ? a single character, e.g. leg_*."),
+        parent: z
+          .string()
+          .optional()
+          .describe("Name or UUID of a group. Only its descendants are listed."),
+        selected: z
+          .boolean()
+          .optional()
+          .describe("Only match selected nodes."),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call, to continue listing."),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_OUTLINE_PAGE_SIZE)
+          .optional()
+          .default(DEFAULT_OUTLINE_PAGE_SIZE)
+          .describe("Maximum number of nodes per page."),
+      }),
+      outputSchema: z.object({
+        nodes: z.array(outlineNodeSchema),
+        total: z.number().describe("Number of listed nodes across all pages."),
+        nextCursor: z.string().optional().describe("Cursor for the next page, if there is one."),
+      }),
+      async execute({ types, name, parent, selected, cursor, limit }) {
+        const roots = parent
+          ? findGroupOrThrow(parent).children
+          : Outliner.root;
+
+        const pattern = name ? globToRegExp(name) : null;
+        const matches = (node: OutlinerNode) =>
+          (!types || types.includes(node.type)) &&
+          (!pattern || pattern.test(node.name)) &&
+          (!selected || Boolean((node as OutlinerNode & { selected?: boolean }).selected));
+
+        const listed = collectOutline(roots, matches);
+
+        const offset = cursor ? Number(cursor) : 0;
+        if (!Number.isInteger(offset) || offset < 0 || offset > listed.length) {
+          throw new Error(`Invalid cursor "${cursor}". Call list_outline without a cursor to start over.`);
+        }
+        const page = listed.slice(offset, offset + limit);
+
+        return structuredResult({
+          nodes: buildOutlineTree(page),
+          total: listed.length,
+          ...(offset + limit < listed.length && { nextCursor: String(offset + limit) }),
+        });
       },
     },
     STATUS_STABLE
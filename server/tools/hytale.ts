@@ -21,7 +21,7 @@ import {
   type HytaleGroup,
   type HytaleAttachmentCollection,
 } from "@/lib/hytale";
-import { findGroupOrThrow, findElementOrThrow } from "@/lib/util";
+import { findGroupOrThrow, findElementOrThrow, structuredResult } from "@/lib/util";
 
 /**
  * Register Hytale-specific tools.
@@ -50,6 +50,15 @@ export function registerHytaleTools() {
         readOnlyHint: true,
       },
       parameters: z.object({}),
+      outputSchema: z.object({
+        formatType: z.enum(["character", "prop"]).nullable(),
+        blockSize: z.number(),
+        animationFPS: z.number(),
+        nodeCount: z.number(),
+        maxNodes: z.number(),
+        nodeCountValid: z.boolean(),
+        features: z.record(z.boolean()),
+      }),
       async execute() {
         if (!isHytaleFormat()) {
           throw new Error(
@@ -61,7 +70,7 @@ export function registerHytaleTools() {
         const blockSize = getHytaleBlockSize();
         const nodeValidation = validateNodeCount();
 
-        return JSON.stringify({
+        return structuredResult({
           formatType,
           blockSize,
           animationFPS: getHytaleAnimationFPS(),
@@ -93,6 +102,14 @@ export function registerHytaleTools() {
         readOnlyHint: true,
       },
       parameters: z.object({}),
+      outputSchema: z.object({
+        valid: z.boolean(),
+        nodeCount: z.number(),
+        maxNodes: z.number(),
+        issues: z.array(z.string()),
+        blockSize: z.number(),
+        textureCount: z.number(),
+      }),
       async execute() {
         if (!isHytaleFormat()) {
           throw new Error("Current project is not using a Hytale format.");
@@ -121,7 +138,7 @@ export function registerHytaleTools() {
           }
         }
 
-        return JSON.stringify({
+        return structuredResult({
           valid: issues.length === 0,
           nodeCount: nodeValidation.count,
           maxNodes: nodeValidation.max,
@@ -221,6 +238,12 @@ export function registerHytaleTools() {
           .describe("ID or name of the cube. Uses selected cube if not provided.")
           .optional(),
       }),
+      outputSchema: z.object({
+        uuid: z.string(),
+        name: z.string(),
+        shading_mode: z.enum(HYTALE_SHADING_MODES),
+        double_sided: z.boolean(),
+      }),
       async execute({ cube_id }) {
         if (!isHytaleFormat()) {
           throw new Error("Current project is not using a Hytale format.");
@@ -242,7 +265,7 @@ export function registerHytaleTools() {
           cube = selected;
         }
 
-        return JSON.stringify({
+        return structuredResult({
           uuid: cube.uuid,
           name: cube.name,
           shading_mode: getCubeShadingMode(cube),
@@ -383,6 +406,17 @@ export function registerHytaleTools() {
         readOnlyHint: true,
       },
       parameters: z.object({}),
+      outputSchema: z.object({
+        count: z.number(),
+        attachments: z.array(
+          z.object({
+            uuid: z.string(),
+            name: z.string(),
+            texture: z.string().nullable(),
+            elementCount: z.number(),
+          })
+        ),
+      }),
       async execute() {
         if (!isHytaleFormat()) {
           throw new Error("Current project is not using a Hytale format.");
@@ -390,7 +424,7 @@ export function registerHytaleTools() {
 
         const attachments = getAttachmentCollections();
 
-        return JSON.stringify({
+        return structuredResult({
           count: attachments.length,
           attachments: attachments.map((a) => ({
             uuid: a.uuid,
@@ -452,6 +486,16 @@ export function registerHytaleTools() {
         readOnlyHint: true,
       },
       parameters: z.object({}),
+      outputSchema: z.object({
+        count: z.number(),
+        pieces: z.array(
+          z.object({
+            uuid: z.string(),
+            name: z.string(),
+            origin: z.array(z.number()),
+          })
+        ),
+      }),
       async execute() {
         if (!isHytaleFormat()) {
           throw new Error("Current project is not using a Hytale format.");
@@ -459,7 +503,7 @@ export function registerHytaleTools() {
 
         const pieces = getAttachmentPieces();
 
-        return JSON.stringify({
+        return structuredResult({
           count: pieces.length,
           pieces: pieces.map((p) => ({
             uuid: p.uuid,
@@ -697,6 +741,11 @@ export function registerHytaleTools() {
           .describe("ID or name of the cube. Uses selected cube if not provided.")
           .optional(),
       }),
+      outputSchema: z.object({
+        uuid: z.string(),
+        name: z.string(),
+        stretch: z.array(z.number()),
+      }),
       async execute({ cube_id }) {
         if (!isHytaleFormat()) {
           throw new Error("Current project is not using a Hytale format.");
@@ -721,7 +770,7 @@ export function registerHytaleTools() {
         // @ts-ignore - stretch property on cube
         const stretch = cube.stretch ?? [1, 1, 1];
 
-        return JSON.stringify({
+        return structuredResult({
           uuid: cube.uuid,
           name: cube.name,
           stretch,
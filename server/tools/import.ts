@@ -2,45 +2,738 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { captureAppScreenshot } from "@/lib/util";
-import { STATUS_STABLE } from "@/lib/constants";
+import {
+  abortIfCancelled,
+  findGroupOrThrow,
+  structuredResult,
+  yieldToEventLoop,
+} from "@/lib/util";
+import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
+import { groupIdOptionalSchema } from "@/lib/zodObjects";
+import { validateBedrockGeometry } from "@/lib/bedrockGeometry";
+import {
+  JAVA_FACE_DIRECTIONS,
+  findPackOfModelFile,
+  getDefaultFaceUv,
+  getPackFile,
+  normalizeResourceLocation,
+  resolveJavaModel,
+  resolveTextureVariable,
+  validateJavaModel,
+  type JavaModel,
+} from "@/lib/javaModel";
+import {
+  decodeDataUri,
+  parseGltf,
+  parseObj,
+  type ImportedObject,
+  type MeshFileContext,
+} from "@/lib/meshImport";
+
+const importModeEnum = z.enum(["replace", "merge_into_group", "new_project"]);
+
+const importSummarySchema = z.object({
+  mode: importModeEnum,
+  identifier: z.string(),
+  project: z.string().describe("UUID of the project the geometry was imported into."),
+  group: z
+    .string()
+    .nullable()
+    .describe("UUID of the group holding the imported bones in merge_into_group mode."),
+  bones: z.array(
+    z.object({
+      uuid: z.string(),
+      name: z.string(),
+      parent: z.string().nullable().describe("Name of the parent bone."),
+      cubes: z.number(),
+    })
+  ),
+  cubeCount: z.number(),
+  textures: z.array(z.object({ uuid: z.string(), name: z.string() })),
+});
+
+const javaImportSummarySchema = z.object({
+  mode: importModeEnum,
+  model: z.string().describe("ID of the imported model."),
+  parents: z.array(z.string()).describe("Parent model IDs, from the direct parent to the root."),
+  project: z.string().describe("UUID of the project the model was imported into."),
+  group: z
+    .string()
+    .nullable()
+    .describe("UUID of the group holding the imported cubes in merge_into_group mode."),
+  cubeCount: z.number(),
+  textures: z.array(
+    z.object({
+      variable: z.string(),
+      location: z.string(),
+      uuid: z.string().nullable().describe("UUID of the loaded texture, or null if its file was not found."),
+    })
+  ),
+  warnings: z.array(z.string()),
+});
+
+const meshImportSummarySchema = z.object({
+  format: z.enum(["obj", "gltf"]),
+  meshes: z.array(
+    z.object({
+      uuid: z.string(),
+      name: z.string(),
+      vertices: z.number(),
+      faces: z.number(),
+    })
+  ),
+  textures: z.array(
+    z.object({
+      material: z.string(),
+      uuid: z.string().nullable().describe("UUID of the texture created for the material, or null if it has no image."),
+    })
+  ),
+  warnings: z.array(z.string()),
+});
+
+function getFs() {
+  // @ts-ignore - requireNativeModule is a Blockbench global
+  return requireNativeModule("fs", {
+    message: "File access is required to import models from files.",
+    optional: false,
+  }) as typeof import("fs");
+}
+
+/**
+ * Reads text given inline, as a data URL, or as a local file path.
+ * Other URLs are not fetched, so imports never make network requests.
+ */
+async function readTextInput(input: string): Promise<string> {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return trimmed;
+  }
+  if (trimmed.startsWith("data:")) {
+    // Data URLs are decoded locally
+    return (await fetch(trimmed)).text();
+  }
+  if (/^[a-z][a-z\d+.-]+:\/\//i.test(trimmed)) {
+    throw new Error("Only local file paths and data URLs can be imported.");
+  }
+
+  const fs = getFs();
+  if (!fs.existsSync(trimmed)) {
+    throw new Error(`File not found: ${trimmed}`);
+  }
+  return fs.readFileSync(trimmed, "utf-8");
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Reads a model from a resource pack, or returns null when the pack does not contain it.
+ */
+function readPackModel(pack: string, id: string): JavaModel | null {
+  const file = getPackFile(pack, "models", id, "json");
+  const fs = getFs();
+  if (!fs.existsSync(file)) return null;
+  return validateJavaModel(parseJson(fs.readFileSync(file, "utf-8")), id);
+}
+
+/**
+ * Reads a binary file from a local path or a data URL.
+ */
+function readBinaryInput(input: string): Uint8Array {
+  if (input.startsWith("data:")) {
+    return decodeDataUri(input).data;
+  }
+  const fs = getFs();
+  if (!fs.existsSync(input)) {
+    throw new Error(`File not found: ${input}`);
+  }
+  return new Uint8Array(fs.readFileSync(input));
+}
+
+/**
+ * Detects whether a mesh file is OBJ or glTF/GLB from its data URL type, extension or content.
+ */
+function detectMeshFormat(input: string, data: Uint8Array): "obj" | "gltf" {
+  const type = input.match(/^data:([^;,]*)/)?.[1] ?? "";
+  if (type.includes("gltf") || /\.(gltf|glb)$/i.test(input)) return "gltf";
+  if (type.includes("obj") || /\.obj$/i.test(input)) return "obj";
+  const header = new TextDecoder().decode(data.subarray(0, 4));
+  return header === "glTF" || header.trimStart().startsWith("{") ? "gltf" : "obj";
+}
+
+/**
+ * Waits until a texture's image has loaded, so its UV size is known.
+ */
+function waitForTextureLoad(texture: Texture): Promise<void> {
+  if (texture.img.complete && texture.img.naturalWidth > 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    texture.img.addEventListener("load", () => resolve(), { once: true });
+    texture.img.addEventListener("error", () => resolve(), { once: true });
+  });
+}
+
+/**
+ * Imports Bedrock geometry for `import_bedrock_geometry` and its deprecated `from_geo_json` alias.
+ * A failed import reverts the edit, so the project is left unchanged, and closes the
+ * project it created in new_project mode.
+ */
+async function importBedrockGeometry({
+  geometry: input,
+  mode,
+  identifier,
+  group: groupName,
+}: {
+  geometry: string;
+  mode: z.infer<typeof importModeEnum>;
+  identifier?: string;
+  group?: string;
+}) {
+  const file = validateBedrockGeometry(parseJson(await readTextInput(input)));
+
+  const geometries = file["minecraft:geometry"];
+  const geometry = identifier
+    ? geometries.find(({ description }) => description.identifier === identifier)
+    : geometries[0];
+  if (!geometry) {
+    const identifiers = geometries.map(({ description }) => description.identifier);
+    throw new Error(
+      `Geometry "${identifier}" not found. The file contains: ${identifiers.join(", ")}.`
+    );
+  }
+  const name = geometry.description.identifier.replace(/^geometry\./, "");
+
+  let createdProject: ModelProject | null = null;
+  if (mode === "new_project") {
+    if (!newProject(Formats.bedrock)) {
+      throw new Error("Failed to create project.");
+    }
+    createdProject = Project!;
+    createdProject.name = name;
+  } else if (!Project) {
+    throw new Error(`No project is open. Use mode "new_project" or create a project first.`);
+  }
+
+  const previousNodes = new Set(Outliner.nodes.map(({ uuid }) => uuid));
+  const previousTextures = new Set(Texture.all.map(({ uuid }) => uuid));
+
+  Undo.initEdit({
+    outliner: true,
+    elements: mode === "replace" ? [...Outliner.elements] : [],
+    textures: [],
+  });
+
+  let createdNodes: OutlinerNode[];
+  let createdTextures: Texture[];
+  let container: Group | null = null;
+  try {
+    if (mode === "replace") {
+      [...Outliner.root].forEach((node) => node.remove());
+    }
+
+    // Pass a single geometry so the codec does not ask which one to import
+    Codecs.bedrock.parse!({ ...file, "minecraft:geometry": [geometry] }, "");
+
+    createdNodes = Outliner.nodes.filter(({ uuid }) => !previousNodes.has(uuid));
+    createdTextures = Texture.all.filter(({ uuid }) => !previousTextures.has(uuid));
+
+    if (mode === "merge_into_group") {
+      container = new Group({ name: groupName || name, origin: [0, 0, 0] }).init();
+      createdNodes
+        .filter((node) => node.parent === "root")
+        .forEach((node) => node.addTo(container!));
+    }
+  } catch (error) {
+    Undo.cancelEdit(true);
+    if (createdProject) {
+      await createdProject.close(true);
+    }
+    Canvas.updateAll();
+    throw error;
+  }
+
+  Undo.finishEdit("Agent imported Bedrock geometry", {
+    outliner: true,
+    elements: createdNodes.filter((node): node is OutlinerElement => !(node instanceof Group)),
+    textures: createdTextures,
+  });
+  Canvas.updateAll();
+
+  const createdGroups = createdNodes.filter((node): node is Group => node instanceof Group);
+
+  return structuredResult({
+    mode,
+    identifier: geometry.description.identifier,
+    project: Project!.uuid,
+    group: container?.uuid ?? null,
+    bones: createdGroups.map((group) => ({
+      uuid: group.uuid,
+      name: group.name,
+      parent:
+        group.parent instanceof Group && group.parent !== container ? group.parent.name : null,
+      cubes: group.children.filter((child) => child instanceof Cube).length,
+    })),
+    cubeCount: createdNodes.filter((node) => node instanceof Cube).length,
+    textures: createdTextures.map(({ uuid, name }) => ({ uuid, name })),
+  });
+}
 
 export function registerImportTools() {
+  createTool(
+    "import_bedrock_geometry",
+    {
+      description:
+        'Imports Bedrock geometry (.geo.json, format 1.12.0 or later) from a JSON string, file path or data URL. The JSON is validated first and every problem is reported with its path. Modes: "replace" clears the current model, "merge_into_group" adds the bones under a new group in the current project, and "new_project" opens a new Bedrock project. Returns the bones, cubes and textures that were created.',
+      annotations: {
+        title: "Import Bedrock Geometry",
+        destructiveHint: true,
+      },
+      parameters: z.object({
+        geometry: z
+          .string()
+          .describe("The .geo.json content, or a local path or data URL of the file. Other URLs are not fetched."),
+        mode: importModeEnum
+          .optional()
+          .default("new_project")
+          .describe("Where to put the imported geometry."),
+        identifier: z
+          .string()
+          .optional()
+          .describe("Identifier of the geometry to import when the file contains several, e.g. geometry.pig. Defaults to the first."),
+        group: z
+          .string()
+          .optional()
+          .describe("Name of the group created in merge_into_group mode. Defaults to the geometry name."),
+      }),
+      outputSchema: importSummarySchema,
+      async execute(args) {
+        return importBedrockGeometry(args);
+      },
+    },
+    STATUS_EXPERIMENTAL
+  );
+
   createTool(
     "from_geo_json",
     {
-      description: "Imports a model from a GeoJSON file.",
+      description:
+        "Deprecated: use import_bedrock_geometry instead. Imports Bedrock geometry (.geo.json) into the current project under a new group, or into a new project when none is open. Returns the same summary as import_bedrock_geometry.",
       annotations: {
-        title: "Import GeoJSON",
+        title: "Import GeoJSON (Deprecated)",
         destructiveHint: true,
       },
       parameters: z.object({
         geojson: z
           .string()
-          .describe(
-            "Path to the GeoJSON file or data URL, or the GeoJSON string itself."
-          ),
+          .describe("The .geo.json content, or a local path or data URL of the file. Other URLs are not fetched."),
       }),
+      outputSchema: importSummarySchema,
       async execute({ geojson }) {
-        // Detect if the input is a URL or a string
-        if (!geojson.startsWith("{") && !geojson.startsWith("[")) {
-          // Assume it's a URL or file path
-          geojson = await fetch(geojson).then((res) => res.text());
+        return importBedrockGeometry({
+          geometry: geojson,
+          mode: Project ? "merge_into_group" : "new_project",
+        });
+      },
+    },
+    STATUS_STABLE
+  );
+
+  createTool(
+    "import_java_model",
+    {
+      description:
+        'Imports a Minecraft: Java Edition block or item model (.json). Pass the model as a JSON string, file path or data URL, or pass a resource pack folder and a model ID. "parent" models and "#texture" variables are resolved from the pack, the referenced PNG textures are loaded and cubes are created with their face UVs and rotations. Common vanilla parents like block/cube_all are built in. Modes: "replace" clears the current model, "merge_into_group" adds the cubes under a new group in the current project, and "new_project" opens a new Java Block/Item project.',
+      annotations: {
+        title: "Import Java Model",
+        destructiveHint: true,
+      },
+      parameters: z
+        .object({
+          model: z
+            .string()
+            .optional()
+            .describe("The model JSON, or a local path or data URL of the file. A file inside a resource pack also finds the pack."),
+          pack: z
+            .string()
+            .optional()
+            .describe("Root folder of the resource pack (the folder containing assets/) to resolve parents and textures from."),
+          model_id: z
+            .string()
+            .optional()
+            .describe('ID of a model in the pack, e.g. "minecraft:block/oak_stairs" or "block/lantern". Used when model is not given.'),
+          mode: importModeEnum
+            .optional()
+            .default("new_project")
+            .describe("Where to put the imported model."),
+          group: z
+            .string()
+            .optional()
+            .describe("Name of the group created in merge_into_group mode. Defaults to the model name."),
+        })
+        .refine(({ model, pack, model_id }) => model || (pack && model_id), {
+          message: "Either 'model' or both 'pack' and 'model_id' are required.",
+          path: ["model"],
+        }),
+      outputSchema: javaImportSummarySchema,
+      async execute({ model: input, pack: packInput, model_id, mode, group: groupName }) {
+        let pack = packInput;
+        let modelId = model_id ? normalizeResourceLocation(model_id) : "";
+        let model: JavaModel | null;
+
+        if (input) {
+          const packFile = /^\s*[[{]|^data:/.test(input) ? null : findPackOfModelFile(input);
+          pack ??= packFile?.pack;
+          modelId ||= packFile?.modelId ?? "model";
+          model = validateJavaModel(parseJson(await readTextInput(input)), modelId);
+        } else {
+          model = readPackModel(pack!, modelId);
+          if (!model) {
+            throw new Error(
+              `Model "${modelId}" not found at ${getPackFile(pack!, "models", modelId, "json")}.`
+            );
+          }
+        }
+
+        const resolved = resolveJavaModel(model, modelId, (id) =>
+          pack ? readPackModel(pack, id) : null
+        );
+        if (resolved.generatedParent && resolved.elements.length === 0) {
+          throw new Error(
+            `Model "${modelId}" uses the generated parent "${resolved.generatedParent}" and has no elements to import. Create the item from its texture instead.`
+          );
+        }
+
+        const warnings: string[] = [];
+        const name = modelId.split(/[:/]/).pop()!;
+
+        if (mode !== "new_project" && !Project) {
+          throw new Error(`No project is open. Use mode "new_project" or create a project first.`);
         }
-        // Parse the GeoJSON string
-        if (typeof geojson !== "string") {
-          throw new Error("Invalid GeoJSON input. Expected a string.");
+
+        // Load each texture file once, even when several variables point to it
+        const loadedTextures = new Map<string, Texture | null>();
+        const textureSummary = Object.entries(resolved.textures).map(([variable, location]) => {
+          if (!loadedTextures.has(location)) {
+            const file = pack ? getPackFile(pack, "textures", location, "png") : null;
+            if (file && getFs().existsSync(file)) {
+              loadedTextures.set(location, new Texture({ id: variable }).fromPath(file));
+            } else {
+              loadedTextures.set(location, null);
+              warnings.push(
+                file
+                  ? `Texture "${location}" of #${variable} not found at ${file}.`
+                  : `Texture "${location}" of #${variable} was not loaded because no resource pack was given.`
+              );
+            }
+          }
+          const texture = loadedTextures.get(location);
+          if (texture && variable === "particle") texture.particle = true;
+          return { variable, location, uuid: texture ? texture.uuid : null };
+        });
+        const createdTextures = [...new Set(loadedTextures.values())].filter(
+          (texture): texture is Texture => texture !== null
+        );
+        await Promise.all(createdTextures.map(waitForTextureLoad));
+
+        // Created once nothing but the import itself can fail, and closed again if it does
+        let createdProject: ModelProject | null = null;
+        if (mode === "new_project") {
+          if (!newProject(Formats.java_block)) {
+            throw new Error("Failed to create project.");
+          }
+          createdProject = Project!;
+          createdProject.name = name;
+        }
+
+        Undo.initEdit({
+          outliner: true,
+          elements: mode === "replace" ? [...Outliner.elements] : [],
+          textures: [],
+        });
+
+        let container: Group | null = null;
+        let cubes: Cube[];
+        try {
+          if (mode === "replace") {
+            [...Outliner.root].forEach((node) => node.remove());
+          }
+          if (mode !== "merge_into_group" && resolved.ambientocclusion !== undefined) {
+            Project!.ambientocclusion = resolved.ambientocclusion;
+          }
+          createdTextures.forEach((texture) => texture.add(false));
+
+          if (mode === "merge_into_group") {
+            container = new Group({ name: groupName || name, origin: [8, 0, 8] }).init();
+          }
+
+          cubes = resolved.elements.map((element, index) => {
+            const rotation: ArrayVector3 = [0, 0, 0];
+            if (element.rotation) {
+              rotation["xyz".indexOf(element.rotation.axis)] = element.rotation.angle;
+            }
+
+            const faces: Partial<Record<CubeFaceDirection, CubeFaceOptions>> = {};
+            for (const direction of JAVA_FACE_DIRECTIONS) {
+              const face = element.faces?.[direction];
+              if (!face) {
+                // Faces missing from the model are disabled, so they are neither rendered nor exported
+                faces[direction] = { uv: [0, 0, 0, 0], texture: false, enabled: false };
+                continue;
+              }
+              const location = resolveTextureVariable(face.texture, resolved.textures);
+              if (!location) {
+                warnings.push(
+                  `Element ${index} ${direction} face uses undefined texture variable "${face.texture}".`
+                );
+              }
+              faces[direction] = {
+                uv: face.uv ?? getDefaultFaceUv(direction, element.from, element.to),
+                rotation: face.rotation ?? 0,
+                texture: (location && loadedTextures.get(location)?.uuid) || false,
+                cullface: face.cullface === "bottom" ? "down" : face.cullface ?? "",
+                tint: face.tintindex ?? -1,
+              };
+            }
+
+            const cube = new Cube({
+              name: element.name ?? `cube_${index}`,
+              from: element.from,
+              to: element.to,
+              origin: element.rotation?.origin ?? [8, 8, 8],
+              rotation,
+              shade: element.shade ?? true,
+              autouv: 0,
+              faces,
+            });
+            cube.rescale = element.rotation?.rescale ?? false;
+            if (container) cube.addTo(container);
+            return cube.init();
+          });
+        } catch (error) {
+          Undo.cancelEdit(true);
+          if (createdProject) {
+            await createdProject.close(true);
+          }
+          Canvas.updateAll();
+          throw error;
         }
 
-        Codecs.bedrock.parse!(JSON.parse(geojson), "");
+        Undo.finishEdit("Agent imported Java model", {
+          outliner: true,
+          elements: cubes,
+          textures: createdTextures,
+        });
+        Canvas.updateAll();
 
-        return new Promise((resolve) => {
-          setTimeout(async () => {
-            resolve(await captureAppScreenshot());
-          }, 3000);
+        return structuredResult({
+          mode,
+          model: modelId,
+          parents: resolved.chain.slice(1),
+          project: Project!.uuid,
+          group: container?.uuid ?? null,
+          cubeCount: cubes.length,
+          textures: textureSummary,
+          warnings,
         });
       },
     },
-    STATUS_STABLE
+    STATUS_EXPERIMENTAL
+  );
+
+  createTool(
+    "import_mesh_file",
+    {
+      description:
+        "Imports an OBJ (with its MTL materials) or glTF/GLB file from a path or data URL as mesh elements in the current project. UVs are kept and every material with a base color image becomes a texture applied to its faces. Faces with more than 4 vertices are split into triangles. Creates one mesh per object or node, or a single mesh when merge is set.",
+      annotations: {
+        title: "Import Mesh File",
+        destructiveHint: true,
+      },
+      parameters: z.object({
+        file: z
+          .string()
+          .describe("Local path or data URL of the .obj, .gltf or .glb file. Relative MTL, texture and buffer files are only found for paths."),
+        format: z
+          .enum(["obj", "gltf"])
+          .optional()
+          .describe("File format. gltf also covers .glb. Detected from the extension or content by default."),
+        scale: z
+          .number()
+          .positive()
+          .optional()
+          .default(16)
+          .describe("Factor applied to positions. The default of 16 turns meters (blocks) into Blockbench pixels."),
+        up_axis: z
+          .enum(["y", "z"])
+          .optional()
+          .default("y")
+          .describe("Up axis of the file. Use z for files from tools like Blender that were exported without converting to Y up."),
+        merge: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Merge all objects into a single mesh instead of creating one mesh per object."),
+        group: groupIdOptionalSchema.describe("Group/bone to add the meshes to."),
+      }),
+      outputSchema: meshImportSummarySchema,
+      async execute({ file, format, scale, up_axis, merge, group }, { reportProgress, signal }) {
+        if (!Project) {
+          throw new Error("No project is open. Create a Generic Model project first.");
+        }
+        if (!Format.meshes) {
+          throw new Error(
+            `The "${Format.name}" format does not support meshes. Create a Generic Model project first.`
+          );
+        }
+        const outlinerGroup = group ? findGroupOrThrow(group) : undefined;
+
+        const data = readBinaryInput(file);
+        const fileFormat = format ?? detectMeshFormat(file, data);
+        const isPath = !file.startsWith("data:");
+        const directory = isPath ? PathModule.dirname(file) : null;
+
+        const context: MeshFileContext = {
+          resolvePath(uri) {
+            const path = PathModule.isAbsolute(uri)
+              ? uri
+              : directory !== null
+                ? PathModule.join(directory, uri)
+                : null;
+            return path && getFs().existsSync(path) ? path : null;
+          },
+          readFile: (path) => new Uint8Array(getFs().readFileSync(path)),
+        };
+        const parsed =
+          fileFormat === "gltf"
+            ? parseGltf(data, context)
+            : parseObj(new TextDecoder().decode(data), context);
+
+        if (parsed.objects.length === 0) {
+          throw new Error("The file contains no faces to import.");
+        }
+
+        const fileName = isPath ? PathModule.basename(file).replace(/\.[^.]+$/, "") : "mesh";
+        const objects: ImportedObject[] = merge
+          ? [
+              parsed.objects.reduce<ImportedObject>(
+                (merged, object) => {
+                  const offset = merged.positions.length;
+                  merged.positions.push(...object.positions);
+                  merged.faces.push(
+                    ...object.faces.map((face) => ({
+                      ...face,
+                      vertices: face.vertices.map((index) => index + offset),
+                    }))
+                  );
+                  return merged;
+                },
+                { name: fileName, positions: [], faces: [] }
+              ),
+            ]
+          : parsed.objects;
+
+        const warnings = [...parsed.warnings];
+        const textures = parsed.materials.map((material) => {
+          if (!material.image) return null;
+          return "path" in material.image
+            ? new Texture({ name: PathModule.basename(material.image.path) }).fromPath(material.image.path)
+            : new Texture({ name: material.name }).fromDataURL(material.image.dataUrl);
+        });
+        const createdTextures = textures.filter((texture): texture is Texture => texture !== null);
+        await Promise.all(createdTextures.map(waitForTextureLoad));
+
+        const convertPosition = ([x, y, z]: number[]): ArrayVector3 =>
+          up_axis === "z" ? [x * scale, z * scale, -y * scale] : [x * scale, y * scale, z * scale];
+
+        // Created meshes are pushed into the edit's element list so undo (and cancellation) removes them
+        const meshes: Mesh[] = [];
+        Undo.initEdit({
+          elements: meshes,
+          outliner: true,
+          textures: [],
+        });
+
+        try {
+          createdTextures.forEach((texture) => texture.add(false));
+
+          const total = objects.length;
+          for (const object of objects) {
+            abortIfCancelled(signal);
+            const mesh = new Mesh({ name: object.name, vertices: {} });
+            const keys = mesh.addVertices(...object.positions.map(convertPosition));
+
+            // Faces with repeated vertices can't store a UV per corner
+            const validFaces = object.faces.filter(
+              ({ vertices }) => new Set(vertices).size === vertices.length
+            );
+            const skipped = object.faces.length - validFaces.length;
+            if (skipped > 0) {
+              warnings.push(`Skipped ${skipped} face(s) of "${object.name}" with repeated vertices.`);
+            }
+
+            const faces = validFaces.map(({ vertices, uvs, material }) => {
+              const texture = material === null ? null : textures[material];
+              const uvWidth = Project!.getUVWidth(texture ?? undefined);
+              const uvHeight = Project!.getUVHeight(texture ?? undefined);
+              return new MeshFace(mesh, {
+                vertices: vertices.map((index) => keys[index]),
+                uv: Object.fromEntries(
+                  vertices.map((index, corner) => {
+                    const [u, v] = uvs[corner] ?? [0, 0];
+                    return [keys[index], [u * uvWidth, v * uvHeight] as ArrayVector2];
+                  })
+                ),
+                texture: texture ? texture.uuid : false,
+              });
+            });
+            mesh.addFaces(...faces);
+
+            mesh.addTo(outlinerGroup).init();
+            meshes.push(mesh);
+            reportProgress({
+              progress: meshes.length,
+              total,
+            });
+            await yieldToEventLoop();
+          }
+        } catch (error) {
+          // abortIfCancelled has already reverted the edit
+          if (Undo.current_save) {
+            Undo.cancelEdit(true);
+            Canvas.updateAll();
+          }
+          throw error;
+        }
+
+        Undo.finishEdit("Agent imported mesh file", {
+          elements: meshes,
+          outliner: true,
+          textures: createdTextures,
+        });
+        Canvas.updateAll();
+
+        return structuredResult({
+          format: fileFormat,
+          meshes: meshes.map((mesh) => ({
+            uuid: mesh.uuid,
+            name: mesh.name,
+            vertices: Object.keys(mesh.vertices).length,
+            faces: Object.keys(mesh.faces).length,
+          })),
+          textures: parsed.materials.map((material, index) => ({
+            material: material.name,
+            uuid: textures[index]?.uuid ?? null,
+          })),
+          warnings,
+        });
+      },
+    },
+    STATUS_EXPERIMENTAL
   );
 }
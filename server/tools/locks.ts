@@ -0,0 +1,157 @@
+/// <reference types="three" />
+/// <reference types="blockbench-types" />
+import { z } from "zod";
+import { createTool } from "@/lib/factories";
+import { STATUS_EXPERIMENTAL } from "@/lib/constants";
+import {
+  acquireLocks,
+  getLocks,
+  releaseLocks,
+  releaseSessionLocks,
+  type ElementLock,
+  type LockTarget,
+} from "@/lib/locks";
+import { getProjectTexture, structuredResult } from "@/lib/util";
+
+const lockSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  type: z.enum(["element", "group", "texture"]),
+  holder: z.string(),
+  acquiredAt: z.string(),
+  note: z.string().optional(),
+  ownedByYou: z.boolean(),
+});
+
+function getLockInfo(lock: ElementLock, sessionId?: string): z.infer<typeof lockSchema> {
+  return {
+    uuid: lock.uuid,
+    name: lock.name,
+    type: lock.type,
+    holder: lock.clientName || lock.sessionId.slice(0, 8) + "...",
+    acquiredAt: lock.acquiredAt.toISOString(),
+    note: lock.note,
+    ownedByYou: lock.sessionId === sessionId,
+  };
+}
+
+/**
+ * Resolves an element, group/bone or texture by UUID or name.
+ * @throws If nothing matches
+ */
+function findLockTarget(id: string): LockTarget {
+  const element = Outliner.elements.find((el: OutlinerElement) => el.uuid === id || el.name === id);
+  if (element) return { uuid: element.uuid, name: element.name, type: "element" };
+
+  const group = Group.all.find((g: Group) => g.uuid === id || g.name === id);
+  if (group) return { uuid: group.uuid, name: group.name, type: "group" };
+
+  const texture = getProjectTexture(id);
+  if (texture) return { uuid: texture.uuid, name: texture.name, type: "texture" };
+
+  throw new Error(
+    `"${id}" not found. Use the list_outline or list_textures tool to see available elements, bones and textures.`
+  );
+}
+
+function requireSession(sessionId?: string): string {
+  if (!sessionId) {
+    throw new Error("Locks can only be held by MCP sessions.");
+  }
+  return sessionId;
+}
+
+export function registerLockTools() {
+createTool(
+  "lock_elements",
+  {
+    description:
+      "Claims elements, bones or textures for this session while you work on them, so other agents know to leave them alone. Locks are advisory: they do not block other tools, but other sessions cannot claim the same targets. Fails without locking anything if another session holds one of the targets. Locks are released with unlock_elements or when the session ends.",
+    annotations: {
+      title: "Lock Elements",
+    },
+    parameters: z.object({
+      targets: z
+        .array(z.string())
+        .min(1)
+        .describe("Names or UUIDs of elements, bones/groups or textures."),
+      note: z
+        .string()
+        .optional()
+        .describe("What you are doing with the targets, shown to other agents and the user."),
+    }),
+    outputSchema: z.object({
+      locks: z.array(lockSchema),
+    }),
+    async execute({ targets, note }, { sessionId }) {
+      const id = requireSession(sessionId);
+      const locks = acquireLocks(targets.map(findLockTarget), id, note);
+
+      return structuredResult({
+        locks: locks.map((lock) => getLockInfo(lock, id)),
+      });
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "unlock_elements",
+  {
+    description:
+      "Releases locks held by this session. Omit `targets` to release all of them.",
+    annotations: {
+      title: "Unlock Elements",
+    },
+    parameters: z.object({
+      targets: z
+        .array(z.string())
+        .optional()
+        .describe("Names or UUIDs of locked targets. Omit to release all locks of this session."),
+    }),
+    outputSchema: z.object({
+      released: z.array(lockSchema),
+    }),
+    async execute({ targets }, { sessionId }) {
+      const id = requireSession(sessionId);
+      const released = targets
+        ? releaseLocks(
+            targets.map(
+              (target) =>
+                getLocks().find((lock) => lock.uuid === target || lock.name === target)?.uuid ??
+                target
+            ),
+            id
+          )
+        : releaseSessionLocks(id);
+
+      return structuredResult({
+        released: released.map((lock) => getLockInfo(lock, id)),
+      });
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "list_locks",
+  {
+    description:
+      "Lists the elements, bones and textures that agents have locked, with the holder and what they are doing.",
+    annotations: {
+      title: "List Locks",
+      readOnlyHint: true,
+    },
+    parameters: z.object({}),
+    outputSchema: z.object({
+      locks: z.array(lockSchema),
+    }),
+    async execute(_args, { sessionId }) {
+      return structuredResult({
+        locks: getLocks().map((lock) => getLockInfo(lock, sessionId)),
+      });
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+}
@@ -2,7 +2,7 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { findElementOrThrow } from "@/lib/util";
+import { findElementOrThrow, structuredResult } from "@/lib/util";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
 import { faceEnum } from "@/lib/zodObjects";
 
@@ -45,6 +45,18 @@ export function registerMaterialInstanceTools() {
             "Specific faces to get material instances for. If not provided, returns all faces."
           ),
       }),
+      outputSchema: z.object({
+        cube: z.object({
+          name: z.string(),
+          uuid: z.string(),
+        }),
+        faces: z.record(
+          z.object({
+            material_name: z.string(),
+            texture: z.string().nullable(),
+          })
+        ),
+      }),
       async execute({ cube_id, faces }) {
         let cube: Cube;
 
@@ -72,13 +84,13 @@ export function registerMaterialInstanceTools() {
           }
         }
 
-        return JSON.stringify({
+        return structuredResult({
           cube: {
             name: cube.name,
             uuid: cube.uuid,
           },
           faces: result,
-        }, null, 2);
+        });
       },
     },
     STATUS_STABLE
@@ -164,6 +176,22 @@ export function registerMaterialInstanceTools() {
         readOnlyHint: true,
       },
       parameters: z.object({}),
+      outputSchema: z.object({
+        total_unique_instances: z.number(),
+        material_instances: z.array(
+          z.object({
+            name: z.string(),
+            usage_count: z.number(),
+            usages: z.array(
+              z.object({
+                cube_name: z.string(),
+                cube_uuid: z.string(),
+                face: faceEnum,
+              })
+            ),
+          })
+        ),
+      }),
       async execute() {
         const materialMap: Record<
           string,
@@ -194,10 +222,10 @@ export function registerMaterialInstanceTools() {
           })
         );
 
-        return JSON.stringify({
+        return structuredResult({
           total_unique_instances: materialInstances.length,
           material_instances: materialInstances,
-        }, null, 2);
+        });
       },
     },
     STATUS_STABLE
@@ -13,7 +13,13 @@ import {
   selectionActionEnum,
 } from "@/lib/zodObjects";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
-import { getProjectTexture, getMeshOrSelected, findMeshOrThrow } from "@/lib/util";
+import {
+  getProjectTexture,
+  getMeshOrSelected,
+  findMeshOrThrow,
+  yieldToEventLoop,
+  abortIfCancelled,
+} from "@/lib/util";
 
 export function registerMeshTools() {
 createTool(
@@ -33,9 +39,11 @@ createTool(
             texture: textureIdOptionalSchema.describe("Texture ID or name to apply to the mesh."),
             group: groupIdOptionalSchema.describe("Group/bone to which the mesh belongs."),
         }),
-        async execute({ elements, texture, group }, { reportProgress }) {
+        async execute({ elements, texture, group }, { reportProgress, signal }) {
+            // Created meshes are pushed into the edit's element list so undo (and cancellation) removes them
+            const meshes: Mesh[] = [];
             Undo.initEdit({
-                elements: [],
+                elements: meshes,
                 outliner: true,
                 collections: [],
             });
@@ -55,7 +63,8 @@ createTool(
                 (g: Group) => g.name === group || g.uuid === group
             );
 
-            const meshes = elements.map((element, progress) => {
+            for (const element of elements) {
+                abortIfCancelled(signal);
                 const mesh = new Mesh({
                     name: element.name,
                     vertices: {},
@@ -68,13 +77,13 @@ createTool(
                 mesh.addTo(outlinerGroup);
                 mesh.applyTexture(projectTexture);
 
+                meshes.push(mesh);
                 reportProgress({
-                    progress,
+                    progress: meshes.length,
                     total,
                 });
-
-                return mesh;
-            });
+                await yieldToEventLoop();
+            }
 
             Undo.finishEdit("Agent placed meshes");
             Canvas.updateAll();
@@ -210,9 +219,10 @@ createTool(
             texture: textureIdOptionalSchema.describe("Texture ID or name to apply to the sphere."),
             group: groupIdOptionalSchema.describe("Group/bone to which the sphere belongs."),
         }),
-        async execute({ elements, texture, group }, { reportProgress }) {
+        async execute({ elements, texture, group }, { reportProgress, signal }) {
+            const spheres: Mesh[] = [];
             Undo.initEdit({
-                elements: [],
+                elements: spheres,
                 outliner: true,
                 collections: [],
             });
@@ -232,7 +242,8 @@ createTool(
                 (g) => g.name === group || g.uuid === group
             );
 
-            const spheres = elements.map((element, progress) => {
+            for (const element of elements) {
+                abortIfCancelled(signal);
                 const mesh = new Mesh({
                     name: element.name,
                     vertices: {},
@@ -323,13 +334,14 @@ createTool(
                     mesh.applyTexture(projectTexture);
                 }
 
+                spheres.push(mesh);
                 reportProgress({
-                    progress,
+                    progress: spheres.length,
                     total,
+                    message: `Created sphere "${mesh.name}"`,
                 });
-
-                return mesh;
-            });
+                await yieldToEventLoop();
+            }
 
             Undo.finishEdit("Agent created spheres");
             Canvas.updateAll();
@@ -797,8 +809,9 @@ createTool(
             texture: textureIdOptionalSchema,
             group: groupIdOptionalSchema,
         }),
-        async execute({ elements, texture, group }, { reportProgress }) {
-            Undo.initEdit({ elements: [], outliner: true, collections: [] });
+        async execute({ elements, texture, group }, { reportProgress, signal }) {
+            const cylinders: Mesh[] = [];
+            Undo.initEdit({ elements: cylinders, outliner: true, collections: [] });
             const total = elements.length;
             const projectTexture = texture
                 ? getProjectTexture(texture)
@@ -808,7 +821,8 @@ createTool(
             const outlinerGroup = getAllGroups().find(
                 (g) => g.name === group || g.uuid === group
             );
-            const cylinders = elements.map((element, progress) => {
+            for (const element of elements) {
+                abortIfCancelled(signal);
                 const mesh = new Mesh({
                     name: element.name,
                     vertices: {},
@@ -867,9 +881,10 @@ createTool(
                 }
                 mesh.addTo(outlinerGroup);
                 if (projectTexture) mesh.applyTexture(projectTexture);
-                reportProgress({ progress, total });
-                return mesh;
-            });
+                cylinders.push(mesh);
+                reportProgress({ progress: cylinders.length, total });
+                await yieldToEventLoop();
+            }
             Undo.finishEdit("Agent created cylinders");
             Canvas.updateAll();
             return JSON.stringify(
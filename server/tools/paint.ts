@@ -3,7 +3,7 @@
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
 import { STATUS_EXPERIMENTAL } from "@/lib/constants";
-import { getProjectTexture } from "@/lib/util";
+import { getProjectTexture, yieldToEventLoop, abortIfCancelled } from "@/lib/util";
 import {
   textureIdOptionalSchema,
   hexColorSchema,
@@ -22,6 +22,11 @@ import {
   brushSettingsSchema,
 } from "@/lib/zodObjects";
 
+/**
+ * Number of brush points painted between progress reports.
+ */
+const BRUSH_PROGRESS_CHUNK_SIZE = 25;
+
 export function registerPaintTools() {
 createTool(
     "paint_fill_tool",
@@ -726,12 +731,15 @@ createTool(
         .default(true)
         .describe("Whether to connect paint strokes with lines."),
     }),
-    async execute({
-      texture_id,
-      coordinates,
-      brush_settings,
-      connect_strokes,
-    }) {
+    async execute(
+      {
+        texture_id,
+        coordinates,
+        brush_settings,
+        connect_strokes,
+      },
+      { reportProgress, signal }
+    ) {
       const texture = texture_id
         ? getProjectTexture(texture_id)
         : Texture.getDefault();
@@ -772,34 +780,47 @@ createTool(
       BarItems.brush_shape.value = shape;
       ColorPanel.set(colorHex);
 
-      // Paint using Painter.edit() method
-      texture.edit(
-        (canvas: HTMLCanvasElement) => {
-          const ctx = canvas.getContext("2d")!;
-          for (const coord of coordinates) {
-            if (shape === "circle") {
-              Painter.editCircle(
-                ctx,
-                coord.x,
-                coord.y,
-                size,
-                softness,
-                () => ({ r: red, g: green, b: blue, a: alpha })
-              );
-            } else {
-              Painter.editSquare(
-                ctx,
-                coord.x,
-                coord.y,
-                size,
-                softness,
-                () => ({ r: red, g: green, b: blue, a: alpha })
-              );
+      // Paint in chunks so progress can be reported between them.
+      // The surrounding initEdit/finishEdit covers undo for every chunk.
+      const total = coordinates.length;
+      for (let start = 0; start < total; start += BRUSH_PROGRESS_CHUNK_SIZE) {
+        abortIfCancelled(signal);
+        const chunk = coordinates.slice(start, start + BRUSH_PROGRESS_CHUNK_SIZE);
+
+        texture.edit(
+          (canvas: HTMLCanvasElement) => {
+            const ctx = canvas.getContext("2d")!;
+            for (const coord of chunk) {
+              if (shape === "circle") {
+                Painter.editCircle(
+                  ctx,
+                  coord.x,
+                  coord.y,
+                  size,
+                  softness,
+                  () => ({ r: red, g: green, b: blue, a: alpha })
+                );
+              } else {
+                Painter.editSquare(
+                  ctx,
+                  coord.x,
+                  coord.y,
+                  size,
+                  softness,
+                  () => ({ r: red, g: green, b: blue, a: alpha })
+                );
+              }
             }
-          }
-        },
-        { edit_name: "Paint with brush" }
-      );
+          },
+          { edit_name: "Paint with brush", no_undo: true }
+        );
+
+        reportProgress({
+          progress: Math.min(start + chunk.length, total),
+          total,
+        });
+        await yieldToEventLoop();
+      }
 
       Undo.finishEdit("Paint with brush");
       Canvas.updateAll();
@@ -2,7 +2,179 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { STATUS_STABLE } from "@/lib/constants";
+import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
+import { findProject } from "@/lib/projectBinding";
+import { sessionManager } from "@/lib/sessions";
+import { structuredResult } from "@/lib/util";
+
+const projectInfoSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  format: z.string().optional(),
+  selected: z.boolean(),
+});
+
+function getProjectInfo(project: ModelProject): z.infer<typeof projectInfoSchema> {
+  return {
+    uuid: project.uuid,
+    name: project.name,
+    format: project.format?.id,
+    selected: project === Project,
+  };
+}
+
+/** MIME types of exported files by extension, for embedded export results */
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  json: "application/json",
+  bbmodel: "application/json",
+  gltf: "model/gltf+json",
+  glb: "model/gltf-binary",
+  obj: "model/obj",
+  mtl: "model/mtl",
+};
+
+function getFs() {
+  // @ts-ignore - requireNativeModule is a Blockbench global
+  return requireNativeModule("fs", {
+    message: "File access is required to save, open and export projects.",
+    optional: false,
+  }) as typeof import("fs");
+}
+
+/**
+ * Throws when the folder a file would be written to does not exist.
+ */
+function assertWritablePath(path: string) {
+  const folder = PathModule.dirname(path);
+  if (!getFs().existsSync(folder)) {
+    throw new Error(`Folder "${folder}" does not exist. Use an absolute path to an existing folder.`);
+  }
+}
+
+function getCodecExtensions(codec: Codec): string[] {
+  const extensions = codec.load_filter?.extensions;
+  return typeof extensions === "function" ? extensions() : extensions ?? [];
+}
+
+/**
+ * Returns the IDs of codecs that can export the current project.
+ */
+function getExportCodecIds(): string[] {
+  return Object.entries(Codecs)
+    .filter(([, codec]) => codec.export_action && Condition(codec.export_action.condition))
+    .map(([id]) => id);
+}
+
+function readModelFile(path: string, readtype: Filesystem.ReadType) {
+  return new Promise<Filesystem.FileResult>((resolve, reject) => {
+    const result = Blockbench.read(
+      [path],
+      { readtype, errorbox: false },
+      (files: Filesystem.FileResult[]) => resolve(files[0])
+    );
+    if (result === false) {
+      reject(new Error(`Failed to read "${path}".`));
+    }
+  });
+}
+
+/**
+ * Loads a file with the first codec whose load filter accepts it, like Blockbench's
+ * `loadModelFile`, but reports whether the codec loaded it.
+ */
+function loadWithCodec(file: Filesystem.FileResult, extension: string): boolean {
+  let json: unknown;
+  for (const codec of Object.values(Codecs)) {
+    const filter = codec.load_filter;
+    if (!filter || !getCodecExtensions(codec).includes(extension)) continue;
+
+    if (filter.type === "json" && json === undefined) {
+      json = autoParseJSON(file.content as string, false);
+      if (!json) {
+        throw new Error("The file is not valid JSON.");
+      }
+    }
+    const content = filter.type === "json" ? json : file.content;
+    if (!Condition(filter.condition, content)) continue;
+
+    return codec.load(content, file) !== false;
+  }
+  return false;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Project properties that change the UV layout and are edited through the `uv_mode` undo aspect */
+const UV_SETTINGS = ["box_uv", "texture_width", "texture_height"];
+
+const projectSettingSchema = z.object({
+  type: z.string(),
+  value: z.unknown(),
+});
+
+/**
+ * Returns the project properties the current format supports, with their values.
+ */
+function getProjectSettings(project: ModelProject): Record<string, z.infer<typeof projectSettingSchema>> {
+  const settings: Record<string, z.infer<typeof projectSettingSchema>> = {
+    box_uv: { type: "boolean", value: project.box_uv },
+  };
+  for (const [name, property] of Object.entries(ModelProject.properties)) {
+    if (!property.exposed || !Condition(property.condition, project)) continue;
+    settings[name] = {
+      type: property.type,
+      value: project[name as keyof ModelProject] ?? null,
+    };
+  }
+  return settings;
+}
+
+interface UvSettings {
+  box_uv?: boolean;
+  texture_width?: number;
+  texture_height?: number;
+}
+
+/**
+ * Changes the box UV mode and texture resolution like the project settings dialog, including
+ * rescaling per-face cube UVs to the new resolution. Returns whether anything changed.
+ */
+function applyUvSettings(
+  project: ModelProject,
+  {
+    box_uv = project.box_uv,
+    texture_width = project.texture_width,
+    texture_height = project.texture_height,
+  }: UvSettings
+): boolean {
+  const resized = texture_width !== project.texture_width || texture_height !== project.texture_height;
+  if (box_uv === project.box_uv && !resized) return false;
+
+  if (!project.box_uv && !box_uv && !Format.per_texture_uv_size && resized) {
+    const scaleX = texture_width / project.texture_width;
+    const scaleY = texture_height / project.texture_height;
+    for (const cube of Cube.all) {
+      for (const face of Object.values(cube.faces)) {
+        face.uv[0] *= scaleX;
+        face.uv[2] *= scaleX;
+        face.uv[1] *= scaleY;
+        face.uv[3] *= scaleY;
+      }
+    }
+  }
+
+  project.texture_width = texture_width;
+  project.texture_height = texture_height;
+  project.box_uv = box_uv;
+  return true;
+}
 
 export function registerProjectTools() {
 createTool(
@@ -34,4 +206,360 @@ createTool(
   },
   STATUS_STABLE
 );
+
+createTool(
+  "select_project",
+  {
+    description:
+      "Binds this session to an open project. Later tool calls from this session run against that project, even when another project tab is selected in Blockbench. Omit `project` to follow the selected tab again. Returns the open projects.",
+    annotations: {
+      title: "Select Project",
+      openWorldHint: false,
+    },
+    parameters: z.object({
+      project: z
+        .string()
+        .optional()
+        .describe("Name or UUID of an open project. Omit to unbind the session."),
+    }),
+    outputSchema: z.object({
+      boundProject: projectInfoSchema.nullable(),
+      projects: z.array(projectInfoSchema),
+    }),
+    async execute({ project }, { sessionId }) {
+      if (!sessionId) {
+        throw new Error("Projects can only be bound to MCP sessions.");
+      }
+
+      const bound = project ? findProject(project) : undefined;
+      if (project && !bound) {
+        const names = ModelProject.all.map(({ name }) => `"${name}"`).join(", ");
+        throw new Error(
+          `Project "${project}" not found. Open projects: ${names || "none"}.`
+        );
+      }
+
+      sessionManager.setProject(sessionId, bound?.uuid);
+
+      return structuredResult({
+        boundProject: bound ? getProjectInfo(bound) : null,
+        projects: ModelProject.all.map(getProjectInfo),
+      });
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "configure_project",
+  {
+    description:
+      "Changes settings of the current project: name, box UV mode, texture resolution, model identifier, geometry name and any other property the format supports (e.g. visible_box for Bedrock visible bounds or ambientocclusion for Java). Call without arguments to list the supported properties and their values. UV mode and resolution changes can be undone.",
+    annotations: {
+      title: "Configure Project",
+      destructiveHint: true,
+    },
+    parameters: z.object({
+      name: z.string().optional().describe("Project name."),
+      box_uv: z.boolean().optional().describe("Use box UV instead of per-face UV, if the format allows both."),
+      texture_width: z.number().int().min(1).optional().describe("Project texture width in pixels."),
+      texture_height: z.number().int().min(1).optional().describe("Project texture height in pixels."),
+      model_identifier: z.string().optional().describe("Model identifier, e.g. for Bedrock entities."),
+      geometry_name: z.string().optional().describe("Bedrock geometry name."),
+      properties: z
+        .record(z.unknown())
+        .optional()
+        .describe("Other project properties by name, e.g. { \"visible_box\": [2, 2, 0] }."),
+    }),
+    outputSchema: z.object({
+      uuid: z.string(),
+      format: z.string().nullable(),
+      changed: z.array(z.string()).describe("Names of the properties that were set."),
+      settings: z
+        .record(projectSettingSchema)
+        .describe("Properties supported by the project's format, with their current values."),
+    }),
+    async execute({ properties, ...named }) {
+      if (!Project) {
+        throw new Error("No project is open. Use create_project or open_project first.");
+      }
+      const project = Project;
+
+      const changes: Record<string, unknown> = { ...properties };
+      for (const [name, value] of Object.entries(named)) {
+        if (value !== undefined) changes[name] = value;
+      }
+
+      const supported = Object.keys(getProjectSettings(project));
+      const unsupported = Object.keys(changes).filter(
+        (name) => !UV_SETTINGS.includes(name) && !supported.includes(name)
+      );
+      if (unsupported.length > 0) {
+        throw new Error(
+          `The "${project.format?.id}" format does not support ${unsupported.map((name) => `"${name}"`).join(", ")}. Supported properties: ${supported.join(", ")}.`
+        );
+      }
+
+      const uvChanges: UvSettings = Object.fromEntries(
+        Object.entries(changes).filter(([name]) => UV_SETTINGS.includes(name))
+      );
+      for (const [name, value] of Object.entries(uvChanges)) {
+        const valid =
+          name === "box_uv" ? typeof value === "boolean" : Number.isInteger(value) && (value as number) > 0;
+        if (!valid) {
+          throw new Error(`Invalid value for "${name}": ${JSON.stringify(value)}.`);
+        }
+      }
+
+      if ("box_uv" in uvChanges && uvChanges.box_uv !== project.box_uv && !Format.optional_box_uv) {
+        throw new Error(`The "${Format.id}" format does not support switching between box UV and per-face UV.`);
+      }
+
+      if (Object.keys(uvChanges).length > 0) {
+        Undo.initEdit({ uv_mode: true, elements: Cube.all, uv_only: true });
+        if (applyUvSettings(project, uvChanges)) {
+          Undo.finishEdit("Agent changed project UV settings");
+          Canvas.updateAllUVs();
+        } else {
+          Undo.cancelEdit(false);
+        }
+      }
+
+      const otherChanges = Object.fromEntries(
+        Object.entries(changes).filter(([name]) => !UV_SETTINGS.includes(name))
+      );
+      for (const name of Object.keys(otherChanges)) {
+        ModelProject.properties[name].merge(project, otherChanges);
+      }
+
+      if (Object.keys(changes).length > 0) {
+        Blockbench.dispatchEvent("update_project_settings", changes);
+      }
+
+      return structuredResult({
+        uuid: project.uuid,
+        format: project.format?.id ?? null,
+        changed: Object.keys(changes),
+        settings: getProjectSettings(project),
+      });
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "save_project",
+  {
+    description:
+      "Saves the current project as a .bbmodel file. Saves to the path the project was last saved to, or to `path` to save a copy there (save as). Later saves go to the new path.",
+    annotations: {
+      title: "Save Project",
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+    parameters: z.object({
+      path: z
+        .string()
+        .optional()
+        .describe("Absolute path of the .bbmodel file. Required if the project was never saved."),
+    }),
+    async execute({ path }) {
+      if (!Project) {
+        throw new Error("No project is open. Use create_project or open_project first.");
+      }
+
+      const target = path || Project.save_path;
+      if (!target) {
+        throw new Error(
+          `Project "${Project.name}" has not been saved before. Provide a path ending in .bbmodel.`
+        );
+      }
+      if (!target.toLowerCase().endsWith(".bbmodel")) {
+        throw new Error(
+          `Projects are saved as .bbmodel files, got "${target}". Use export_project to write other formats.`
+        );
+      }
+      assertWritablePath(target);
+
+      Codecs.project.write(Codecs.project.compile(), target);
+
+      return `Saved project "${Project.name}" to "${target}".`;
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "open_project",
+  {
+    description:
+      "Opens a .bbmodel file, or any model file Blockbench can load (e.g. Bedrock geometry or Java block JSON), in a new project tab and selects it.",
+    annotations: {
+      title: "Open Project",
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+    parameters: z.object({
+      path: z.string().describe("Absolute path of the file to open."),
+    }),
+    async execute({ path }) {
+      if (!getFs().existsSync(path)) {
+        throw new Error(`File not found: ${path}`);
+      }
+
+      const extension = PathModule.extname(path).slice(1).toLowerCase();
+      const codec = Object.values(Codecs).find(
+        (codec) => codec.load_filter && getCodecExtensions(codec).includes(extension)
+      );
+      if (!codec) {
+        const supported = [...new Set(Object.values(Codecs).flatMap(getCodecExtensions))];
+        throw new Error(
+          `Blockbench cannot open ".${extension}" files. Supported extensions: ${supported.join(", ")}.`
+        );
+      }
+
+      const existing = ModelProject.all.find((project) => project.save_path === path || project.export_path === path);
+      if (existing) {
+        existing.select();
+        return `"${path}" is already open as project "${existing.name}" (UUID: ${existing.uuid}). Selected it.`;
+      }
+
+      const file = await readModelFile(path, codec.load_filter.type === "image" ? "image" : "text");
+      const openBefore = new Set(ModelProject.all);
+      let failure: string | undefined;
+      try {
+        if (!loadWithCodec(file, extension)) {
+          failure = "No codec accepted the file's content.";
+        }
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+      }
+      if (!failure && (!Project || openBefore.has(Project))) {
+        failure = "No project was created.";
+      }
+
+      if (failure) {
+        // Codecs create the project before parsing, so a failed parse leaves it half-loaded
+        for (const project of ModelProject.all.filter((project) => !openBefore.has(project))) {
+          await project.close(true);
+        }
+        throw new Error(`Failed to open "${path}": ${failure}`);
+      }
+
+      return `Opened "${path}" as project "${Project.name}" (UUID: ${Project.uuid}) with format "${Project.format?.id}".`;
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "close_project",
+  {
+    description:
+      "Closes a project tab. Fails if the project has unsaved changes, unless `force` is set to discard them.",
+    annotations: {
+      title: "Close Project",
+      destructiveHint: true,
+    },
+    parameters: z.object({
+      project: z
+        .string()
+        .optional()
+        .describe("Name or UUID of an open project. Defaults to the current project."),
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Close even if there are unsaved changes, discarding them."),
+    }),
+    async execute({ project: projectId, force }) {
+      const project = projectId ? findProject(projectId) : Project;
+      if (!project) {
+        throw new Error(
+          projectId ? `Project "${projectId}" not found.` : "No project is open."
+        );
+      }
+      if (!project.saved && !force) {
+        throw new Error(
+          `Project "${project.name}" has unsaved changes. Save it with save_project first, or set force to discard them.`
+        );
+      }
+
+      const { name } = project;
+      const closed = await project.close(true);
+      if (!closed) {
+        throw new Error(`Blockbench did not close project "${name}".`);
+      }
+
+      return `Closed project "${name}".`;
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
+createTool(
+  "export_project",
+  {
+    description:
+      "Exports the current project through a Blockbench codec, e.g. bedrock (Bedrock geometry), java_block (Java block/item JSON), gltf or obj. Writes the file to `path`, or returns it as an embedded resource when no path is given.",
+    annotations: {
+      title: "Export Project",
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+    parameters: z.object({
+      codec: z.string().describe("ID of the codec to export with, e.g. bedrock, java_block, gltf or obj."),
+      path: z
+        .string()
+        .optional()
+        .describe("Absolute path of the exported file. Omit to return the file content instead."),
+    }),
+    async execute({ codec: codecId, path }) {
+      if (!Project) {
+        throw new Error("No project is open. Use create_project or open_project first.");
+      }
+
+      const codec = Codecs[codecId];
+      if (!codec) {
+        throw new Error(
+          `Codec "${codecId}" not found. Codecs for this project: ${getExportCodecIds().join(", ")}.`
+        );
+      }
+      if (!codec.export_action || !Condition(codec.export_action.condition)) {
+        throw new Error(
+          `Codec "${codecId}" cannot export a "${Project.format?.id}" project. Codecs for this project: ${getExportCodecIds().join(", ")}.`
+        );
+      }
+
+      const content = await codec.compile();
+
+      if (path) {
+        assertWritablePath(path);
+        codec.write(content, path);
+        return `Exported project "${Project.name}" with codec "${codecId}" to "${path}".`;
+      }
+
+      const fileName = `${codec.fileName()}.${codec.extension}`;
+      const uri = `export://${Project.uuid}/${encodeURIComponent(fileName)}`;
+      const mimeType = EXPORT_MIME_TYPES[codec.extension] ?? "application/octet-stream";
+
+      return {
+        content: [
+          {
+            type: "resource",
+            resource:
+              content instanceof ArrayBuffer
+                ? { uri, blob: toBase64(content), mimeType }
+                : {
+                    uri,
+                    text: typeof content === "string" ? content : JSON.stringify(content),
+                    mimeType,
+                  },
+          },
+        ],
+      };
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
 }
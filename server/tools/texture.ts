@@ -9,8 +9,10 @@ import {
   findTextureOrThrow,
   findTextureGroupOrThrow,
   getChannelTextureInfo,
+  structuredResult,
 } from "@/lib/util";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
+import { getTextureLayers, readTexturePixels } from "@/lib/texturePixels";
 import {
   colorSchema,
   elementIdSchema,
@@ -21,6 +23,56 @@ import {
   renderSidesEnum,
 } from "@/lib/zodObjects";
 
+/** Output shape of `getChannelTextureInfo` */
+const channelTextureOutputSchema = z.object({
+  name: z.string().optional(),
+  uuid: z.string().optional(),
+  hasTexture: z.boolean(),
+});
+
+/** Output shape of a texture group's material config */
+const materialConfigOutputSchema = z.object({
+  color_value: z.array(z.number()),
+  mer_value: z.array(z.number()),
+  subsurface_value: z.number().optional(),
+  saved: z.boolean(),
+});
+
+/** Output shape of `getTextureLayers` entries */
+const textureLayerOutputSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  type: z.string(),
+  parent: z.string().nullable(),
+  visible: z.boolean(),
+  opacity: z.number().nullable(),
+  blend_mode: z.string().nullable(),
+  offset: z.tuple([z.number(), z.number()]).nullable(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  selected: z.boolean(),
+});
+
+/** Output shape of `readTexturePixels` without its data URL */
+const texturePixelsOutputSchema = z.object({
+  texture: z.string(),
+  uuid: z.string(),
+  region: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+  }),
+  layer: z.string().nullable(),
+  scale: z.number(),
+  summary: z.object({
+    pixels: z.number(),
+    transparentPixels: z.number(),
+    uniqueColors: z.number(),
+    palette: z.array(z.object({ color: z.string(), count: z.number() })),
+  }),
+});
+
 export function registerTextureTools() {
 createTool(
   "create_texture",
@@ -281,17 +333,27 @@ createTool(
       readOnlyHint: true,
     },
     parameters: z.object({}),
+    outputSchema: z.object({
+      textures: z.array(
+        z.object({
+          name: z.string(),
+          uuid: z.string(),
+          id: z.string(),
+          group: z.string().optional(),
+        })
+      ),
+    }),
     async execute() {
       const textures = Project?.textures ?? Texture.all;
 
-      return JSON.stringify(
-        textures.map((texture) => ({
+      return structuredResult({
+        textures: textures.map((texture) => ({
           name: texture.name,
           uuid: texture.uuid,
           id: texture.id,
-          group: texture.group,
-        }))
-      );
+          group: texture.group || undefined,
+        })),
+      });
     },
   },
   STATUS_STABLE
@@ -301,32 +363,115 @@ createTool(
   "get_texture",
   {
     description:
-      "Returns the image data of the given texture or default texture.",
+      "Returns the image data of the given texture or default texture, followed by its size and layers. Each layer lists its name, opacity, blend mode, visibility, offset and size from bottom to top. Provide a layer to get that layer's image instead of the composited texture.",
     annotations: {
       title: "Get Texture",
       readOnlyHint: true,
     },
     parameters: z.object({
       texture: textureIdOptionalSchema,
+      layer: z
+        .string()
+        .optional()
+        .describe("Name or UUID of a layer to return instead of the composited texture."),
     }),
-    async execute({ texture }) {
-      if (!texture) {
-        const defaultTexture = Texture.getDefault();
-        if (!defaultTexture) {
-          throw new Error(
-            "No default texture available. Use the create_texture tool to create one first, or specify a texture ID."
-          );
-        }
-        return imageContent({ url: defaultTexture.getDataURL() });
+    outputSchema: z.object({
+      uuid: z.string(),
+      name: z.string(),
+      width: z.number(),
+      height: z.number(),
+      layer: z.string().nullable(),
+      layers: z.array(textureLayerOutputSchema),
+    }),
+    async execute({ texture, layer }) {
+      const image = texture ? findTextureOrThrow(texture) : Texture.getDefault();
+      if (!image) {
+        throw new Error(
+          "No default texture available. Use the create_texture tool to create one first, or specify a texture ID."
+        );
       }
 
-      const image = findTextureOrThrow(texture);
-      return imageContent({ url: image.getDataURL() });
+      const url = layer ? readTexturePixels(image, { layer }).dataUrl : image.getDataURL();
+      return structuredResult(
+        {
+          uuid: image.uuid,
+          name: image.name,
+          width: image.width,
+          height: image.height,
+          layer: layer ?? null,
+          layers: getTextureLayers(image),
+        },
+        imageContent({ url }).content
+      );
     },
   },
   STATUS_STABLE
 );
 
+createTool(
+  "read_texture_region",
+  {
+    description:
+      "Returns a rectangle of a texture as a PNG image, with a palette summary of its most frequent colors. Use it to check painted pixels. Reads the composited texture, or a single layer when one is given. Small regions can be upscaled with nearest-neighbor scaling to make pixels easier to see.",
+    annotations: {
+      title: "Read Texture Region",
+      readOnlyHint: true,
+    },
+    parameters: z.object({
+      texture: textureIdOptionalSchema,
+      x: z.number().int().min(0).optional().default(0).describe("Left edge of the region in pixels."),
+      y: z.number().int().min(0).optional().default(0).describe("Top edge of the region in pixels."),
+      width: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Region width in pixels. Defaults to the rest of the texture."),
+      height: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Region height in pixels. Defaults to the rest of the texture."),
+      layer: z
+        .string()
+        .optional()
+        .describe("Name or UUID of a layer to read instead of the composited texture."),
+      scale: z
+        .number()
+        .int()
+        .min(1)
+        .max(32)
+        .optional()
+        .default(1)
+        .describe("Nearest-neighbor upscaling factor."),
+    }),
+    outputSchema: texturePixelsOutputSchema,
+    async execute({ texture: textureId, x, y, width, height, layer, scale }) {
+      const texture = textureId
+        ? findTextureOrThrow(textureId)
+        : Texture.selected ?? Texture.getDefault();
+      if (!texture) {
+        throw new Error(
+          "No texture selected. Use the create_texture tool to create one first, or specify a texture ID."
+        );
+      }
+
+      const { dataUrl, ...info } = readTexturePixels(texture, {
+        region: { x, y, width, height },
+        layer,
+        scale,
+      });
+
+      return structuredResult(
+        { texture: texture.name, uuid: texture.uuid, ...info },
+        imageContent({ url: dataUrl }).content
+      );
+    },
+  },
+  STATUS_EXPERIMENTAL
+);
+
 createTool(
   "create_pbr_material",
   {
@@ -625,6 +770,21 @@ createTool(
       readOnlyHint: true,
     },
     parameters: z.object({}),
+    outputSchema: z.object({
+      materials: z.array(
+        z.object({
+          name: z.string(),
+          uuid: z.string(),
+          channels: z.object({
+            color: channelTextureOutputSchema,
+            normal: channelTextureOutputSchema,
+            height: channelTextureOutputSchema,
+            mer: channelTextureOutputSchema,
+          }),
+          config: materialConfigOutputSchema,
+        })
+      ),
+    }),
     async execute() {
       // @ts-ignore - TextureGroup is globally available
       const materials = TextureGroup.all.filter(
@@ -651,7 +811,7 @@ createTool(
         };
       });
 
-      return JSON.stringify(result, null, 2);
+      return structuredResult({ materials: result });
     },
   },
   STATUS_STABLE
@@ -669,6 +829,26 @@ createTool(
     parameters: z.object({
       material: z.string().describe("Material name or UUID."),
     }),
+    outputSchema: z.object({
+      name: z.string(),
+      uuid: z.string(),
+      is_material: z.boolean(),
+      textures: z.array(
+        z.object({
+          name: z.string(),
+          uuid: z.string(),
+          pbr_channel: z.string().optional(),
+          width: z.number(),
+          height: z.number(),
+          render_mode: z.string().optional(),
+          render_sides: z.string().optional(),
+        })
+      ),
+      config: materialConfigOutputSchema.extend({
+        file_path: z.string(),
+      }),
+      texture_set_json: z.record(z.unknown()).nullable(),
+    }),
     async execute({ material }) {
       const textureGroup = findTextureGroupOrThrow(material);
       const textures = textureGroup.getTextures();
@@ -704,7 +884,7 @@ createTool(
         texture_set_json: textureSetJson,
       };
 
-      return JSON.stringify(result, null, 2);
+      return structuredResult(result);
     },
   },
   STATUS_STABLE
@@ -2,7 +2,9 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { createTool } from "@/lib/factories";
-import { captureAppScreenshot } from "@/lib/util";
+import { captureAppScreenshot, fixCircularReferences } from "@/lib/util";
+import { evaluateCode } from "@/lib/sandbox";
+import { sessionManager } from "@/lib/sessions";
 import { STATUS_EXPERIMENTAL, STATUS_STABLE } from "@/lib/constants";
 
 export function registerUITools() {
@@ -77,7 +79,7 @@ createTool(
   "risky_eval",
   {
     description:
-      "Evaluates the given expression and logs it to the console. Do not pass `console` commands as they will not work.",
+      "Evaluates JavaScript in a sandbox and returns the result as JSON. Pass an expression, or statements that `return` a value. Only `Outliner`, `Cube`, `Mesh`, `Group`, `Texture`, `Animator`, `Undo` and standard JavaScript built-ins are available; native modules, `fetch`, the file system, `process` and the DOM are not, unless the user allowed unsafe evaluation for this session in the MCP panel.",
     annotations: {
       title: "Eval",
       destructiveHint: true,
@@ -86,15 +88,13 @@ createTool(
     parameters: z.object({
       code: z
         .string()
-        .refine((val) => !/console\.|\/\/|\/\*/.test(val), {
-          message:
-            "Code must not include 'console.', '//' or '/* */' comments.",
-        })
         .describe(
-          "JavaScript code to evaluate. Do not pass `console` commands or comments."
+          "JavaScript expression, or statements that `return` a value. Top-level `await` is supported."
         ),
     }),
-    async execute({ code }) {
+    async execute({ code }, { sessionId }) {
+      const unsafe = Boolean(sessionId && sessionManager.get(sessionId)?.unsafeEval);
+
       try {
         Undo.initEdit({
           elements: [],
@@ -102,10 +102,10 @@ createTool(
           collections: [],
         });
 
-        const result = await eval(code.trim());
+        const result = await evaluateCode(code, { unsafe });
 
         if (result !== undefined) {
-          return JSON.stringify(result);
+          return JSON.stringify(result, fixCircularReferences(Object(result)));
         }
 
         return "(Code executed successfully, but no result was returned.)";
@@ -113,6 +113,7 @@ createTool(
         return `Error executing code: ${error}`;
       } finally {
         Undo.finishEdit("Agent executed code");
+        Canvas.updateAll();
       }
     },
   },
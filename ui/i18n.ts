@@ -12,18 +12,44 @@
 const en: Record<string, string> = {
   // Panel sections
   "mcp.panel.sessions": "Sessions",
+  "mcp.panel.locks": "Locks",
   "mcp.panel.server": "Server",
   "mcp.panel.tools": "Tools",
   "mcp.panel.resources": "Resources",
   "mcp.panel.prompts": "Prompts",
+  "mcp.panel.audit_log": "Audit Log",
 
   // Sessions section
   "mcp.sessions.no_clients": "No clients connected",
+  "mcp.sessions.disconnect": "Disconnect",
+  "mcp.sessions.disconnect_message": "Disconnect %0? The client has to reconnect and start a new session.",
+  "mcp.sessions.bound_project": "Project bound with select_project",
+  "mcp.locks.none": "Nothing is locked",
+  "mcp.locks.release": "Release lock",
+  "mcp.sandbox.sandboxed": "Code evaluation is sandboxed. Click to allow unsafe evaluation.",
+  "mcp.sandbox.unsafe_enabled": "Unsafe code evaluation is allowed. Click to sandbox again.",
+  "mcp.sandbox.unsafe_title": "Allow Unsafe Evaluation",
+  "mcp.sandbox.unsafe_message": "Let %0 run code outside the sandbox? Code from risky_eval will have full access to native modules, the file system, the network and process until this session ends.",
+  "mcp.sandbox.allow": "Allow",
+  "mcp.approval.title": "Approve Tool Call",
+  "mcp.approval.message": "%0 wants to run **%1** with these arguments:",
+  "mcp.approval.approve": "Approve",
+  "mcp.approval.always": "Always allow for this session",
+  "mcp.approval.deny": "Deny",
 
   // Server section
   "mcp.server.name": "Server Name",
   "mcp.server.version": "Server Version",
   "mcp.server.connected_clients": "Connected Clients",
+  "mcp.auth.label": "Authentication",
+  "mcp.auth.enabled": "Bearer token required",
+  "mcp.auth.disabled": "Disabled",
+  "mcp.auth.token": "Click to show or hide the token",
+  "mcp.auth.rotate": "Rotate Token",
+  "mcp.auth.rotate_title": "Rotate Auth Token",
+  "mcp.auth.rotate_message": "Generate a new token? Connected clients must be updated with the new token before their next request.",
+  "mcp.auth.token_copied": "Auth token copied to clipboard",
+  "mcp.auth.token_rotated": "Auth token rotated",
 
   // Filter UI
   "mcp.filter.tools_placeholder": "Filter tools...",
@@ -34,6 +60,26 @@ const en: Record<string, string> = {
   // Empty states
   "mcp.tools.no_match": "No tools match your filter.",
   "mcp.tools.none_available": "No tools available.",
+  "mcp.tools.toggle": "Expose %0 to clients",
+  "mcp.profiles.label": "Profile",
+  "mcp.profiles.enabled_count": "%0 of %1 tools enabled",
+  "mcp.profiles.default": "Global profile",
+  "mcp.profiles.all": "All tools",
+  "mcp.profiles.modeling": "Modeling only",
+  "mcp.profiles.texturing": "Texturing only",
+  "mcp.profiles.no_eval": "No eval",
+  "mcp.profiles.hytale": "Hytale",
+  "mcp.profiles.custom": "Custom",
+  "mcp.audit.filter_placeholder": "Filter by tool, client or session...",
+  "mcp.audit.errors_only": "Errors only",
+  "mcp.audit.export": "Export",
+  "mcp.audit.exported": "Audit log exported",
+  "mcp.audit.no_records": "No tool calls recorded yet.",
+  "mcp.audit.no_match": "No records match your filter.",
+  "mcp.audit.disabled": "Audit logging is disabled in the settings.",
+  "mcp.audit.duration": "%0 ms",
+  "mcp.audit.waited": "waited %0 ms",
+  "mcp.audit.local": "Local",
   "mcp.resources.no_match": "No resources match your filter.",
   "mcp.resources.none_available": "No resources available.",
   "mcp.prompts.no_match": "No prompts match your filter.",
@@ -57,10 +103,44 @@ const en: Record<string, string> = {
   // Settings
   "mcp.settings.instructions_name": "MCP System Instructions",
   "mcp.settings.instructions_desc": "Instructions for the MCP system.",
+  "mcp.settings.host_name": "MCP Server Host",
+  "mcp.settings.host_desc": "Address the MCP server binds to. Keep the loopback default unless other machines must connect.",
   "mcp.settings.port_name": "MCP Server Port",
   "mcp.settings.port_desc": "Port for the MCP server.",
   "mcp.settings.endpoint_name": "MCP Server Endpoint",
   "mcp.settings.endpoint_desc": "Endpoint for the MCP server.",
+  "mcp.settings.stream_responses_name": "MCP Stream Responses (SSE)",
+  "mcp.settings.stream_responses_desc": "Answer each request with a Server-Sent Events stream so long-running tools can report progress. Applies to new sessions.",
+  "mcp.settings.session_timeout_name": "Session Timeout",
+  "mcp.settings.session_timeout_desc": "Minutes without requests before a session is closed. Set to 0 to keep sessions open until the client disconnects.",
+  "mcp.settings.session_grace_period_name": "Session Grace Period",
+  "mcp.settings.session_grace_period_desc": "Minutes after a timeout during which a client can resume its session with the old session ID. Set to 0 to turn resuming off.",
+  "mcp.settings.keep_alive_interval_name": "Keep-Alive Interval",
+  "mcp.settings.keep_alive_interval_desc": "Seconds between pings to connected clients. Clients that answer stay active. Pings need MCP Stream Responses (SSE). Set to 0 to turn pings off.",
+  "mcp.settings.tool_profile_name": "Tool Profile",
+  "mcp.settings.tool_profile_desc": "Which tools are exposed to MCP clients. Connected clients are notified when it changes.",
+  "mcp.settings.disabled_tools_name": "Disabled Tools",
+  "mcp.settings.disabled_tools_desc": "Comma-separated tool names hidden by the Custom profile. Edited by the tool checkboxes in the MCP panel.",
+  "mcp.settings.require_approval_name": "Approval Mode",
+  "mcp.settings.require_approval_desc": "Ask for approval before running tools that can delete or overwrite work.",
+  "mcp.settings.audit_log_name": "Audit Log",
+  "mcp.settings.audit_log_desc": "Append a JSON Lines record of every tool call to the audit log file.",
+  "mcp.settings.audit_log_path_name": "Audit Log File",
+  "mcp.settings.audit_log_path_desc": "Path of the audit log. Leave empty to use %0 in the Blockbench user data folder.",
+  "mcp.settings.require_auth_name": "MCP Require Authentication",
+  "mcp.settings.require_auth_desc": "Require clients to send the MCP auth token as an \"Authorization: Bearer\" header.",
+  "mcp.settings.auth_token_name": "MCP Auth Token",
+  "mcp.settings.auth_token_desc": "Shared secret that clients must present when authentication is required.",
+  "mcp.settings.allowed_hosts_name": "MCP Allowed Hosts",
+  "mcp.settings.allowed_hosts_desc": "Comma-separated Host header values accepted by the MCP server. Use * to allow any host.",
+  "mcp.settings.allowed_origins_name": "MCP Allowed Origins",
+  "mcp.settings.allowed_origins_desc": "Comma-separated browser origins allowed to call the MCP server. Entries without a port match any port. Use * to allow any origin.",
+  "mcp.settings.tls_enabled_name": "MCP Enable TLS",
+  "mcp.settings.tls_enabled_desc": "Serve the MCP server over HTTPS using the certificate and key below.",
+  "mcp.settings.tls_cert_name": "MCP TLS Certificate",
+  "mcp.settings.tls_cert_desc": "Path to the PEM-encoded TLS certificate (chain).",
+  "mcp.settings.tls_key_name": "MCP TLS Private Key",
+  "mcp.settings.tls_key_desc": "Path to the PEM-encoded TLS private key.",
 
   // Tool test dialog
   "mcp.dialog.result_title": "Result: %0",
@@ -92,18 +172,44 @@ const en: Record<string, string> = {
 const de: Record<string, string> = {
   // Panel sections
   "mcp.panel.sessions": "Sitzungen",
+  "mcp.panel.locks": "Sperren",
   "mcp.panel.server": "Server",
   "mcp.panel.tools": "Werkzeuge",
   "mcp.panel.resources": "Ressourcen",
   "mcp.panel.prompts": "Prompts",
+  "mcp.panel.audit_log": "Protokoll",
 
   // Sessions section
   "mcp.sessions.no_clients": "Keine Clients verbunden",
+  "mcp.sessions.disconnect": "Trennen",
+  "mcp.sessions.disconnect_message": "%0 trennen? Der Client muss sich neu verbinden und eine neue Sitzung starten.",
+  "mcp.sessions.bound_project": "Mit select_project gebundenes Projekt",
+  "mcp.locks.none": "Nichts ist gesperrt",
+  "mcp.locks.release": "Sperre aufheben",
+  "mcp.sandbox.sandboxed": "Code wird in einer Sandbox ausgeführt. Klicken, um unsichere Auswertung zu erlauben.",
+  "mcp.sandbox.unsafe_enabled": "Unsichere Codeauswertung ist erlaubt. Klicken, um die Sandbox wieder zu aktivieren.",
+  "mcp.sandbox.unsafe_title": "Unsichere Auswertung erlauben",
+  "mcp.sandbox.unsafe_message": "%0 erlauben, Code außerhalb der Sandbox auszuführen? Code aus risky_eval hat bis zum Ende dieser Sitzung vollen Zugriff auf native Module, das Dateisystem, das Netzwerk und den Prozess.",
+  "mcp.sandbox.allow": "Erlauben",
+  "mcp.approval.title": "Werkzeugaufruf freigeben",
+  "mcp.approval.message": "%0 möchte **%1** mit diesen Argumenten ausführen:",
+  "mcp.approval.approve": "Freigeben",
+  "mcp.approval.always": "Für diese Sitzung immer erlauben",
+  "mcp.approval.deny": "Ablehnen",
 
   // Server section
   "mcp.server.name": "Servername",
   "mcp.server.version": "Serverversion",
   "mcp.server.connected_clients": "Verbundene Clients",
+  "mcp.auth.label": "Authentifizierung",
+  "mcp.auth.enabled": "Bearer-Token erforderlich",
+  "mcp.auth.disabled": "Deaktiviert",
+  "mcp.auth.token": "Klicken zum Ein- oder Ausblenden des Tokens",
+  "mcp.auth.rotate": "Token erneuern",
+  "mcp.auth.rotate_title": "Auth-Token erneuern",
+  "mcp.auth.rotate_message": "Neues Token generieren? Verbundene Clients müssen vor ihrer nächsten Anfrage mit dem neuen Token aktualisiert werden.",
+  "mcp.auth.token_copied": "Auth-Token in die Zwischenablage kopiert",
+  "mcp.auth.token_rotated": "Auth-Token erneuert",
 
   // Filter UI
   "mcp.filter.tools_placeholder": "Werkzeuge filtern...",
@@ -114,6 +220,26 @@ const de: Record<string, string> = {
   // Empty states
   "mcp.tools.no_match": "Keine Werkzeuge entsprechen Ihrem Filter.",
   "mcp.tools.none_available": "Keine Werkzeuge verfügbar.",
+  "mcp.tools.toggle": "%0 für Clients freigeben",
+  "mcp.profiles.label": "Profil",
+  "mcp.profiles.enabled_count": "%0 von %1 Werkzeugen aktiviert",
+  "mcp.profiles.default": "Globales Profil",
+  "mcp.profiles.all": "Alle Werkzeuge",
+  "mcp.profiles.modeling": "Nur Modellierung",
+  "mcp.profiles.texturing": "Nur Texturierung",
+  "mcp.profiles.no_eval": "Ohne Eval",
+  "mcp.profiles.hytale": "Hytale",
+  "mcp.profiles.custom": "Benutzerdefiniert",
+  "mcp.audit.filter_placeholder": "Nach Werkzeug, Client oder Sitzung filtern...",
+  "mcp.audit.errors_only": "Nur Fehler",
+  "mcp.audit.export": "Exportieren",
+  "mcp.audit.exported": "Protokoll exportiert",
+  "mcp.audit.no_records": "Noch keine Werkzeugaufrufe aufgezeichnet.",
+  "mcp.audit.no_match": "Keine Einträge entsprechen Ihrem Filter.",
+  "mcp.audit.disabled": "Die Protokollierung ist in den Einstellungen deaktiviert.",
+  "mcp.audit.duration": "%0 ms",
+  "mcp.audit.waited": "%0 ms gewartet",
+  "mcp.audit.local": "Lokal",
   "mcp.resources.no_match": "Keine Ressourcen entsprechen Ihrem Filter.",
   "mcp.resources.none_available": "Keine Ressourcen verfügbar.",
   "mcp.prompts.no_match": "Keine Prompts entsprechen Ihrem Filter.",
@@ -137,10 +263,44 @@ const de: Record<string, string> = {
   // Settings
   "mcp.settings.instructions_name": "MCP Systemanweisungen",
   "mcp.settings.instructions_desc": "Anweisungen für das MCP-System.",
+  "mcp.settings.host_name": "MCP Server Host",
+  "mcp.settings.host_desc": "Adresse, an die der MCP-Server gebunden wird. Behalten Sie die Loopback-Vorgabe bei, sofern keine anderen Rechner verbinden müssen.",
   "mcp.settings.port_name": "MCP Server Port",
   "mcp.settings.port_desc": "Port für den MCP-Server.",
   "mcp.settings.endpoint_name": "MCP Server Endpunkt",
   "mcp.settings.endpoint_desc": "Endpunkt für den MCP-Server.",
+  "mcp.settings.stream_responses_name": "MCP Antworten streamen (SSE)",
+  "mcp.settings.stream_responses_desc": "Jede Anfrage mit einem Server-Sent-Events-Stream beantworten, damit langlaufende Werkzeuge Fortschritt melden können. Gilt für neue Sitzungen.",
+  "mcp.settings.session_timeout_name": "Sitzungs-Timeout",
+  "mcp.settings.session_timeout_desc": "Minuten ohne Anfragen, bevor eine Sitzung geschlossen wird. 0 hält Sitzungen offen, bis der Client die Verbindung trennt.",
+  "mcp.settings.session_grace_period_name": "Sitzungs-Kulanzzeit",
+  "mcp.settings.session_grace_period_desc": "Minuten nach einem Timeout, in denen ein Client seine Sitzung mit der alten Sitzungs-ID fortsetzen kann. 0 deaktiviert das Fortsetzen.",
+  "mcp.settings.keep_alive_interval_name": "Keep-Alive-Intervall",
+  "mcp.settings.keep_alive_interval_desc": "Sekunden zwischen Pings an verbundene Clients. Antwortende Clients bleiben aktiv. Pings erfordern „MCP Antworten streamen (SSE)“. 0 deaktiviert Pings.",
+  "mcp.settings.tool_profile_name": "Werkzeugprofil",
+  "mcp.settings.tool_profile_desc": "Welche Werkzeuge MCP-Clients angeboten werden. Verbundene Clients werden bei Änderungen benachrichtigt.",
+  "mcp.settings.disabled_tools_name": "Deaktivierte Werkzeuge",
+  "mcp.settings.disabled_tools_desc": "Kommagetrennte Werkzeugnamen, die das benutzerdefinierte Profil ausblendet. Wird über die Werkzeug-Kontrollkästchen im MCP-Panel bearbeitet.",
+  "mcp.settings.require_approval_name": "Freigabemodus",
+  "mcp.settings.require_approval_desc": "Vor dem Ausführen von Werkzeugen, die Arbeit löschen oder überschreiben können, um Freigabe bitten.",
+  "mcp.settings.audit_log_name": "Protokoll",
+  "mcp.settings.audit_log_desc": "Jeden Werkzeugaufruf als JSON-Lines-Eintrag an die Protokolldatei anhängen.",
+  "mcp.settings.audit_log_path_name": "Protokolldatei",
+  "mcp.settings.audit_log_path_desc": "Pfad der Protokolldatei. Leer lassen, um %0 im Blockbench-Benutzerdatenordner zu verwenden.",
+  "mcp.settings.require_auth_name": "MCP Authentifizierung erforderlich",
+  "mcp.settings.require_auth_desc": "Clients müssen das MCP-Token als \"Authorization: Bearer\"-Header senden.",
+  "mcp.settings.auth_token_name": "MCP Auth-Token",
+  "mcp.settings.auth_token_desc": "Gemeinsames Geheimnis, das Clients bei aktivierter Authentifizierung senden müssen.",
+  "mcp.settings.allowed_hosts_name": "MCP Erlaubte Hosts",
+  "mcp.settings.allowed_hosts_desc": "Kommagetrennte Host-Header-Werte, die der MCP-Server akzeptiert. * erlaubt jeden Host.",
+  "mcp.settings.allowed_origins_name": "MCP Erlaubte Origins",
+  "mcp.settings.allowed_origins_desc": "Kommagetrennte Browser-Origins, die den MCP-Server aufrufen dürfen. Einträge ohne Port gelten für jeden Port. * erlaubt jede Origin.",
+  "mcp.settings.tls_enabled_name": "MCP TLS aktivieren",
+  "mcp.settings.tls_enabled_desc": "Den MCP-Server mit dem unten angegebenen Zertifikat und Schlüssel über HTTPS bereitstellen.",
+  "mcp.settings.tls_cert_name": "MCP TLS-Zertifikat",
+  "mcp.settings.tls_cert_desc": "Pfad zum PEM-kodierten TLS-Zertifikat (bzw. zur Zertifikatskette).",
+  "mcp.settings.tls_key_name": "MCP TLS-Privatschlüssel",
+  "mcp.settings.tls_key_desc": "Pfad zum PEM-kodierten privaten TLS-Schlüssel.",
 
   // Tool test dialog
   "mcp.dialog.result_title": "Ergebnis: %0",
@@ -172,18 +332,44 @@ const de: Record<string, string> = {
 const ja: Record<string, string> = {
   // Panel sections
   "mcp.panel.sessions": "セッション",
+  "mcp.panel.locks": "ロック",
   "mcp.panel.server": "サーバー",
   "mcp.panel.tools": "ツール",
   "mcp.panel.resources": "リソース",
   "mcp.panel.prompts": "プロンプト",
+  "mcp.panel.audit_log": "監査ログ",
 
   // Sessions section
   "mcp.sessions.no_clients": "クライアントが接続されていません",
+  "mcp.sessions.disconnect": "切断",
+  "mcp.sessions.disconnect_message": "%0 を切断しますか？クライアントは再接続して新しいセッションを開始する必要があります。",
+  "mcp.sessions.bound_project": "select_project でバインドされたプロジェクト",
+  "mcp.locks.none": "ロックされている項目はありません",
+  "mcp.locks.release": "ロックを解除",
+  "mcp.sandbox.sandboxed": "コードはサンドボックスで評価されます。クリックすると安全でない評価を許可します。",
+  "mcp.sandbox.unsafe_enabled": "安全でないコード評価が許可されています。クリックするとサンドボックスに戻します。",
+  "mcp.sandbox.unsafe_title": "安全でない評価を許可",
+  "mcp.sandbox.unsafe_message": "%0 にサンドボックス外でのコード実行を許可しますか？このセッションが終了するまで、risky_eval のコードはネイティブモジュール、ファイルシステム、ネットワーク、プロセスに完全にアクセスできます。",
+  "mcp.sandbox.allow": "許可",
+  "mcp.approval.title": "ツール呼び出しの承認",
+  "mcp.approval.message": "%0 が次の引数で **%1** を実行しようとしています:",
+  "mcp.approval.approve": "承認",
+  "mcp.approval.always": "このセッションでは常に許可",
+  "mcp.approval.deny": "拒否",
 
   // Server section
   "mcp.server.name": "サーバー名",
   "mcp.server.version": "サーバーバージョン",
   "mcp.server.connected_clients": "接続中のクライアント",
+  "mcp.auth.label": "認証",
+  "mcp.auth.enabled": "Bearer トークン必須",
+  "mcp.auth.disabled": "無効",
+  "mcp.auth.token": "クリックしてトークンを表示/非表示",
+  "mcp.auth.rotate": "トークンを再生成",
+  "mcp.auth.rotate_title": "認証トークンの再生成",
+  "mcp.auth.rotate_message": "新しいトークンを生成しますか？接続中のクライアントは次のリクエストまでに新しいトークンへ更新する必要があります。",
+  "mcp.auth.token_copied": "認証トークンをクリップボードにコピーしました",
+  "mcp.auth.token_rotated": "認証トークンを再生成しました",
 
   // Filter UI
   "mcp.filter.tools_placeholder": "ツールを検索...",
@@ -194,6 +380,26 @@ const ja: Record<string, string> = {
   // Empty states
   "mcp.tools.no_match": "フィルターに一致するツールがありません。",
   "mcp.tools.none_available": "利用可能なツールがありません。",
+  "mcp.tools.toggle": "%0 をクライアントに公開",
+  "mcp.profiles.label": "プロファイル",
+  "mcp.profiles.enabled_count": "%1 個中 %0 個のツールが有効",
+  "mcp.profiles.default": "グローバルプロファイル",
+  "mcp.profiles.all": "すべてのツール",
+  "mcp.profiles.modeling": "モデリングのみ",
+  "mcp.profiles.texturing": "テクスチャのみ",
+  "mcp.profiles.no_eval": "Eval なし",
+  "mcp.profiles.hytale": "Hytale",
+  "mcp.profiles.custom": "カスタム",
+  "mcp.audit.filter_placeholder": "ツール、クライアント、セッションで絞り込み...",
+  "mcp.audit.errors_only": "エラーのみ",
+  "mcp.audit.export": "エクスポート",
+  "mcp.audit.exported": "監査ログをエクスポートしました",
+  "mcp.audit.no_records": "まだツール呼び出しは記録されていません。",
+  "mcp.audit.no_match": "フィルターに一致する記録がありません。",
+  "mcp.audit.disabled": "監査ログは設定で無効になっています。",
+  "mcp.audit.duration": "%0 ミリ秒",
+  "mcp.audit.waited": "待機 %0 ミリ秒",
+  "mcp.audit.local": "ローカル",
   "mcp.resources.no_match": "フィルターに一致するリソースがありません。",
   "mcp.resources.none_available": "利用可能なリソースがありません。",
   "mcp.prompts.no_match": "フィルターに一致するプロンプトがありません。",
@@ -217,10 +423,44 @@ const ja: Record<string, string> = {
   // Settings
   "mcp.settings.instructions_name": "MCPシステム指示",
   "mcp.settings.instructions_desc": "MCPシステムの指示。",
+  "mcp.settings.host_name": "MCP サーバーホスト",
+  "mcp.settings.host_desc": "MCP サーバーがバインドするアドレス。他のマシンから接続する必要がない限り、既定のループバックのままにしてください。",
   "mcp.settings.port_name": "MCPサーバーポート",
   "mcp.settings.port_desc": "MCPサーバーのポート。",
   "mcp.settings.endpoint_name": "MCPサーバーエンドポイント",
   "mcp.settings.endpoint_desc": "MCPサーバーのエンドポイント。",
+  "mcp.settings.stream_responses_name": "MCP レスポンスをストリーム (SSE)",
+  "mcp.settings.stream_responses_desc": "各リクエストに Server-Sent Events ストリームで応答し、時間のかかるツールが進捗を報告できるようにします。新しいセッションに適用されます。",
+  "mcp.settings.session_timeout_name": "セッションタイムアウト",
+  "mcp.settings.session_timeout_desc": "リクエストがないままセッションを閉じるまでの分数。0 にするとクライアントが切断するまでセッションを維持します。",
+  "mcp.settings.session_grace_period_name": "セッション猶予期間",
+  "mcp.settings.session_grace_period_desc": "タイムアウト後、クライアントが古いセッション ID でセッションを再開できる分数。0 にすると再開を無効にします。",
+  "mcp.settings.keep_alive_interval_name": "キープアライブ間隔",
+  "mcp.settings.keep_alive_interval_desc": "接続中のクライアントへ ping を送る間隔（秒）。応答したクライアントはアクティブとみなされます。ping には「MCP レスポンスをストリーム (SSE)」が必要です。0 にすると ping を無効にします。",
+  "mcp.settings.tool_profile_name": "ツールプロファイル",
+  "mcp.settings.tool_profile_desc": "MCP クライアントに公開するツール。変更時には接続中のクライアントに通知されます。",
+  "mcp.settings.disabled_tools_name": "無効なツール",
+  "mcp.settings.disabled_tools_desc": "カスタムプロファイルで非表示にするツール名（カンマ区切り）。MCP パネルのツールのチェックボックスで編集されます。",
+  "mcp.settings.require_approval_name": "承認モード",
+  "mcp.settings.require_approval_desc": "作業内容を削除または上書きする可能性のあるツールを実行する前に承認を求めます。",
+  "mcp.settings.audit_log_name": "監査ログ",
+  "mcp.settings.audit_log_desc": "すべてのツール呼び出しを JSON Lines 形式で監査ログファイルに追記します。",
+  "mcp.settings.audit_log_path_name": "監査ログファイル",
+  "mcp.settings.audit_log_path_desc": "監査ログのパス。空欄の場合は Blockbench のユーザーデータフォルダーの %0 を使用します。",
+  "mcp.settings.require_auth_name": "MCP 認証を必須にする",
+  "mcp.settings.require_auth_desc": "クライアントに MCP 認証トークンを \"Authorization: Bearer\" ヘッダーで送信させます。",
+  "mcp.settings.auth_token_name": "MCP 認証トークン",
+  "mcp.settings.auth_token_desc": "認証が必須の場合にクライアントが提示する共有シークレット。",
+  "mcp.settings.allowed_hosts_name": "MCP 許可ホスト",
+  "mcp.settings.allowed_hosts_desc": "MCP サーバーが受け付ける Host ヘッダー値（カンマ区切り）。* ですべてのホストを許可します。",
+  "mcp.settings.allowed_origins_name": "MCP 許可オリジン",
+  "mcp.settings.allowed_origins_desc": "MCP サーバーの呼び出しを許可するブラウザーオリジン（カンマ区切り）。ポートのない項目はすべてのポートに一致します。* ですべてのオリジンを許可します。",
+  "mcp.settings.tls_enabled_name": "MCP TLS を有効化",
+  "mcp.settings.tls_enabled_desc": "以下の証明書と鍵を使用して MCP サーバーを HTTPS で提供します。",
+  "mcp.settings.tls_cert_name": "MCP TLS 証明書",
+  "mcp.settings.tls_cert_desc": "PEM 形式の TLS 証明書（チェーン）へのパス。",
+  "mcp.settings.tls_key_name": "MCP TLS 秘密鍵",
+  "mcp.settings.tls_key_desc": "PEM 形式の TLS 秘密鍵へのパス。",
 
   // Tool test dialog
   "mcp.dialog.result_title": "結果: %0",
@@ -252,18 +492,44 @@ const ja: Record<string, string> = {
 const zh: Record<string, string> = {
   // Panel sections
   "mcp.panel.sessions": "会话",
+  "mcp.panel.locks": "锁定",
   "mcp.panel.server": "服务器",
   "mcp.panel.tools": "工具",
   "mcp.panel.resources": "资源",
   "mcp.panel.prompts": "提示词",
+  "mcp.panel.audit_log": "审计日志",
 
   // Sessions section
   "mcp.sessions.no_clients": "没有客户端连接",
+  "mcp.sessions.disconnect": "断开连接",
+  "mcp.sessions.disconnect_message": "断开 %0？客户端需要重新连接并开始新会话。",
+  "mcp.sessions.bound_project": "通过 select_project 绑定的项目",
+  "mcp.locks.none": "没有锁定的项目",
+  "mcp.locks.release": "解除锁定",
+  "mcp.sandbox.sandboxed": "代码在沙箱中执行。点击以允许不安全执行。",
+  "mcp.sandbox.unsafe_enabled": "已允许不安全的代码执行。点击以恢复沙箱。",
+  "mcp.sandbox.unsafe_title": "允许不安全执行",
+  "mcp.sandbox.unsafe_message": "允许 %0 在沙箱外运行代码？在此会话结束前，risky_eval 的代码将可以完全访问原生模块、文件系统、网络和进程。",
+  "mcp.sandbox.allow": "允许",
+  "mcp.approval.title": "批准工具调用",
+  "mcp.approval.message": "%0 想要使用以下参数运行 **%1**：",
+  "mcp.approval.approve": "批准",
+  "mcp.approval.always": "本次会话始终允许",
+  "mcp.approval.deny": "拒绝",
 
   // Server section
   "mcp.server.name": "服务器名称",
   "mcp.server.version": "服务器版本",
   "mcp.server.connected_clients": "已连接客户端",
+  "mcp.auth.label": "身份验证",
+  "mcp.auth.enabled": "需要 Bearer 令牌",
+  "mcp.auth.disabled": "已禁用",
+  "mcp.auth.token": "点击显示或隐藏令牌",
+  "mcp.auth.rotate": "轮换令牌",
+  "mcp.auth.rotate_title": "轮换认证令牌",
+  "mcp.auth.rotate_message": "生成新令牌？已连接的客户端必须在下次请求前更新为新令牌。",
+  "mcp.auth.token_copied": "认证令牌已复制到剪贴板",
+  "mcp.auth.token_rotated": "认证令牌已轮换",
 
   // Filter UI
   "mcp.filter.tools_placeholder": "筛选工具...",
@@ -274,6 +540,26 @@ const zh: Record<string, string> = {
   // Empty states
   "mcp.tools.no_match": "没有匹配的工具。",
   "mcp.tools.none_available": "没有可用的工具。",
+  "mcp.tools.toggle": "向客户端公开 %0",
+  "mcp.profiles.label": "配置文件",
+  "mcp.profiles.enabled_count": "已启用 %0 / %1 个工具",
+  "mcp.profiles.default": "全局配置文件",
+  "mcp.profiles.all": "所有工具",
+  "mcp.profiles.modeling": "仅建模",
+  "mcp.profiles.texturing": "仅纹理",
+  "mcp.profiles.no_eval": "无 Eval",
+  "mcp.profiles.hytale": "Hytale",
+  "mcp.profiles.custom": "自定义",
+  "mcp.audit.filter_placeholder": "按工具、客户端或会话筛选...",
+  "mcp.audit.errors_only": "仅错误",
+  "mcp.audit.export": "导出",
+  "mcp.audit.exported": "审计日志已导出",
+  "mcp.audit.no_records": "尚未记录任何工具调用。",
+  "mcp.audit.no_match": "没有匹配的记录。",
+  "mcp.audit.disabled": "审计日志已在设置中禁用。",
+  "mcp.audit.duration": "%0 毫秒",
+  "mcp.audit.waited": "等待 %0 毫秒",
+  "mcp.audit.local": "本地",
   "mcp.resources.no_match": "没有匹配的资源。",
   "mcp.resources.none_available": "没有可用的资源。",
   "mcp.prompts.no_match": "没有匹配的提示词。",
@@ -297,10 +583,44 @@ const zh: Record<string, string> = {
   // Settings
   "mcp.settings.instructions_name": "MCP系统指令",
   "mcp.settings.instructions_desc": "MCP系统的指令。",
+  "mcp.settings.host_name": "MCP 服务器主机",
+  "mcp.settings.host_desc": "MCP 服务器绑定的地址。除非其他计算机需要连接，否则请保留默认的回环地址。",
   "mcp.settings.port_name": "MCP服务器端口",
   "mcp.settings.port_desc": "MCP服务器的端口。",
   "mcp.settings.endpoint_name": "MCP服务器端点",
   "mcp.settings.endpoint_desc": "MCP服务器的端点。",
+  "mcp.settings.stream_responses_name": "MCP 流式响应 (SSE)",
+  "mcp.settings.stream_responses_desc": "使用服务器发送事件 (SSE) 流响应每个请求，使耗时工具能够报告进度。适用于新会话。",
+  "mcp.settings.session_timeout_name": "会话超时",
+  "mcp.settings.session_timeout_desc": "无请求多少分钟后关闭会话。设为 0 则保持会话直到客户端断开连接。",
+  "mcp.settings.session_grace_period_name": "会话宽限期",
+  "mcp.settings.session_grace_period_desc": "超时后客户端可使用旧会话 ID 恢复会话的分钟数。设为 0 则关闭恢复功能。",
+  "mcp.settings.keep_alive_interval_name": "保活间隔",
+  "mcp.settings.keep_alive_interval_desc": "向已连接客户端发送 ping 的间隔秒数。有响应的客户端保持活动状态。ping 需要启用“MCP 流式响应 (SSE)”。设为 0 则关闭 ping。",
+  "mcp.settings.tool_profile_name": "工具配置文件",
+  "mcp.settings.tool_profile_desc": "向 MCP 客户端公开哪些工具。更改时会通知已连接的客户端。",
+  "mcp.settings.disabled_tools_name": "已禁用的工具",
+  "mcp.settings.disabled_tools_desc": "自定义配置文件中隐藏的工具名称（逗号分隔）。可通过 MCP 面板中的工具复选框编辑。",
+  "mcp.settings.require_approval_name": "审批模式",
+  "mcp.settings.require_approval_desc": "在运行可能删除或覆盖工作内容的工具之前请求批准。",
+  "mcp.settings.audit_log_name": "审计日志",
+  "mcp.settings.audit_log_desc": "将每次工具调用以 JSON Lines 记录追加到审计日志文件。",
+  "mcp.settings.audit_log_path_name": "审计日志文件",
+  "mcp.settings.audit_log_path_desc": "审计日志的路径。留空则使用 Blockbench 用户数据文件夹中的 %0。",
+  "mcp.settings.require_auth_name": "MCP 需要身份验证",
+  "mcp.settings.require_auth_desc": "要求客户端通过 \"Authorization: Bearer\" 请求头发送 MCP 认证令牌。",
+  "mcp.settings.auth_token_name": "MCP 认证令牌",
+  "mcp.settings.auth_token_desc": "启用身份验证时客户端必须提供的共享密钥。",
+  "mcp.settings.allowed_hosts_name": "MCP 允许的主机",
+  "mcp.settings.allowed_hosts_desc": "MCP 服务器接受的 Host 请求头值，以逗号分隔。使用 * 允许任何主机。",
+  "mcp.settings.allowed_origins_name": "MCP 允许的来源",
+  "mcp.settings.allowed_origins_desc": "允许调用 MCP 服务器的浏览器来源，以逗号分隔。不带端口的条目匹配任何端口。使用 * 允许任何来源。",
+  "mcp.settings.tls_enabled_name": "MCP 启用 TLS",
+  "mcp.settings.tls_enabled_desc": "使用下方的证书和密钥通过 HTTPS 提供 MCP 服务器。",
+  "mcp.settings.tls_cert_name": "MCP TLS 证书",
+  "mcp.settings.tls_cert_desc": "PEM 编码的 TLS 证书（链）的路径。",
+  "mcp.settings.tls_key_name": "MCP TLS 私钥",
+  "mcp.settings.tls_key_desc": "PEM 编码的 TLS 私钥的路径。",
 
   // Tool test dialog
   "mcp.dialog.result_title": "结果: %0",
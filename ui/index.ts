@@ -3,6 +3,24 @@ import type { IMCPTool, IMCPPrompt, IMCPResource } from "@/types";
 import { VERSION } from "@/lib/constants";
 import { statusBarSetup, statusBarTeardown } from "@/ui/statusBar";
 import { sessionManager, type Session } from "@/lib/sessions";
+import { getSessionProject } from "@/lib/projectBinding";
+import { rotateAuthToken, subscribeAuth, type AuthState } from "@/lib/auth";
+import {
+  getActiveToolProfile,
+  getToolProfileOptions,
+  setActiveToolProfile,
+  setSessionToolProfile,
+  setToolEnabled,
+  subscribeToolProfiles,
+  type ToolProfileId,
+} from "@/lib/toolProfiles";
+import {
+  formatAuditRecords,
+  isAuditLogEnabled,
+  subscribeAuditLog,
+  type AuditRecord,
+} from "@/lib/auditLog";
+import { releaseLocks, subscribeLocks, type ElementLock } from "@/lib/locks";
 import { openToolTestDialog } from "@/ui/toolTestDialog";
 import { openPromptPreviewDialog } from "@/ui/promptPreviewDialog";
 import { formatArgumentCount } from "@/ui/i18n";
@@ -11,6 +29,10 @@ import template from "@/ui/panel.html";
 
 let panel: Panel | undefined;
 let unsubscribe: (() => void) | undefined;
+let unsubscribeAuth: (() => void) | undefined;
+let unsubscribeToolProfiles: (() => void) | undefined;
+let unsubscribeAuditLog: (() => void) | undefined;
+let unsubscribeLocks: (() => void) | undefined;
 
 export function uiSetup({
   server,
@@ -46,23 +68,65 @@ export function uiSetup({
             lastActivity: s.lastActivity,
             clientName: s.clientName,
             clientVersion: s.clientVersion,
+            toolProfile: s.toolProfile,
+            unsafeEval: s.unsafeEval,
+            projectName: getSessionProject(s.id)?.name,
           }));
           vm.server.connected = sessions.length > 0;
         });
+        unsubscribeAuth = subscribeAuth((state: AuthState) => {
+          vm.auth = { ...state };
+        });
+        unsubscribeToolProfiles = subscribeToolProfiles(() => {
+          vm.toolProfile = getActiveToolProfile();
+          for (const tool of vm.tools) {
+            tool.enabled = Boolean(tools[tool.name]?.enabled);
+          }
+        });
+        unsubscribeAuditLog = subscribeAuditLog((records: AuditRecord[]) => {
+          vm.auditRecords = records;
+        });
+        unsubscribeLocks = subscribeLocks((locks: ElementLock[]) => {
+          vm.locks = locks;
+        });
       },
       beforeDestroy() {
         if (unsubscribe) {
           unsubscribe();
           unsubscribe = undefined;
         }
+        if (unsubscribeAuth) {
+          unsubscribeAuth();
+          unsubscribeAuth = undefined;
+        }
+        if (unsubscribeToolProfiles) {
+          unsubscribeToolProfiles();
+          unsubscribeToolProfiles = undefined;
+        }
+        if (unsubscribeAuditLog) {
+          unsubscribeAuditLog();
+          unsubscribeAuditLog = undefined;
+        }
+        if (unsubscribeLocks) {
+          unsubscribeLocks();
+          unsubscribeLocks = undefined;
+        }
       },
       data: () => ({
-        sessions: [] as Array<{ id: string; connectedAt: Date; lastActivity: Date; clientName?: string; clientVersion?: string }>,
+        sessions: [] as Array<{ id: string; connectedAt: Date; lastActivity: Date; clientName?: string; clientVersion?: string; toolProfile?: ToolProfileId; unsafeEval?: boolean; projectName?: string }>,
         server: {
           connected: false,
           name: "Blockbench MCP",
           version: VERSION,
         },
+        auth: {
+          enabled: false,
+          token: "",
+        } as AuthState,
+        showToken: false,
+        locks: [] as ElementLock[],
+        toolProfile: getActiveToolProfile() as ToolProfileId,
+        toolProfileOptions: getToolProfileOptions(),
         tools: Object.values(tools).map((tool) => ({
           name: tool.name,
           description: tool.description,
@@ -93,8 +157,18 @@ export function uiSetup({
           search: "",
           showExperimental: true,
         },
+        auditRecords: [] as AuditRecord[],
+        auditFilter: {
+          search: "",
+          errorsOnly: false,
+        },
+        expandedAuditRecord: null as AuditRecord | null,
       }),
       computed: {
+        enabledToolCount(): number {
+          // @ts-ignore - Vue component context
+          return this.tools.filter((tool: { enabled: boolean }) => tool.enabled).length;
+        },
         filteredTools(): Array<{ name: string; description: string; enabled: boolean; status: string }> {
           // @ts-ignore - Vue component context
           const { tools, toolsFilter } = this;
@@ -128,6 +202,19 @@ export function uiSetup({
             return true;
           });
         },
+        filteredAuditRecords(): AuditRecord[] {
+          // @ts-ignore - Vue component context
+          const { auditRecords, auditFilter } = this;
+          const searchLower = auditFilter.search.toLowerCase();
+          // Newest first
+          return [...auditRecords].reverse().filter((record: AuditRecord) => {
+            if (auditFilter.errorsOnly && record.success) return false;
+            if (!searchLower) return true;
+            return [record.tool, record.clientName, record.sessionId].some(
+              (value) => value?.toLowerCase().includes(searchLower)
+            );
+          });
+        },
       },
       methods: {
         // Expose tl() to Vue template
@@ -148,6 +235,119 @@ export function uiSetup({
         formatTime(date: Date): string {
           return new Date(date).toLocaleTimeString();
         },
+        formatToken(token: string): string {
+          // @ts-ignore - Vue component context
+          if (this.showToken || !token) return token;
+          return `${token.slice(0, 4)}${"•".repeat(12)}`;
+        },
+        copyToken(): void {
+          // @ts-ignore - Vue component context
+          navigator.clipboard.writeText(this.auth.token).then(() => {
+            Blockbench.showQuickMessage(tl("mcp.auth.token_copied"), 1500);
+          }).catch(() => {
+            Blockbench.showQuickMessage(tl("mcp.dialog.copy_failed"), 1500);
+          });
+        },
+        rotateToken(): void {
+          Blockbench.showMessageBox(
+            {
+              title: tl("mcp.auth.rotate_title"),
+              message: tl("mcp.auth.rotate_message"),
+              icon: "autorenew",
+              buttons: [tl("mcp.auth.rotate"), tl("mcp.dialog.cancel")],
+              confirm: 0,
+              cancel: 1,
+            },
+            (button: number | string) => {
+              if (button !== 0) return;
+              rotateAuthToken();
+              Blockbench.showQuickMessage(tl("mcp.auth.token_rotated"), 1500);
+            }
+          );
+        },
+        setToolProfile(profileId: ToolProfileId): void {
+          setActiveToolProfile(profileId);
+        },
+        setSessionToolProfile(sessionId: string, profileId: ToolProfileId | ""): void {
+          setSessionToolProfile(sessionId, profileId || undefined);
+        },
+        formatLockHolder(lock: ElementLock): string {
+          return lock.clientName || lock.sessionId.slice(0, 8) + "...";
+        },
+        getLockIcon(lock: ElementLock): string {
+          return { element: "view_in_ar", group: "folder", texture: "image" }[lock.type];
+        },
+        releaseLock(lock: ElementLock): void {
+          releaseLocks([lock.uuid]);
+        },
+        disconnectSession(session: { id: string; clientName?: string; clientVersion?: string }): void {
+          Blockbench.showMessageBox(
+            {
+              title: tl("mcp.sessions.disconnect"),
+              // @ts-ignore - Vue component context
+              message: tl("mcp.sessions.disconnect_message", [this.formatSessionId(session)]),
+              icon: "link_off",
+              buttons: [tl("mcp.sessions.disconnect"), tl("mcp.dialog.cancel")],
+              confirm: 0,
+              cancel: 1,
+            },
+            (button: number | string) => {
+              if (button !== 0) return;
+              sessionManager.remove(session.id);
+            }
+          );
+        },
+        toggleUnsafeEval(session: { id: string; unsafeEval?: boolean }): void {
+          if (session.unsafeEval) {
+            sessionManager.setUnsafeEval(session.id, false);
+            return;
+          }
+          Blockbench.showMessageBox(
+            {
+              title: tl("mcp.sandbox.unsafe_title"),
+              // @ts-ignore - Vue component context
+              message: tl("mcp.sandbox.unsafe_message", [this.formatSessionId(session)]),
+              icon: "gpp_maybe",
+              buttons: [tl("mcp.sandbox.allow"), tl("mcp.dialog.cancel")],
+              confirm: 0,
+              cancel: 1,
+            },
+            (button: number | string) => {
+              if (button !== 0) return;
+              sessionManager.setUnsafeEval(session.id, true);
+            }
+          );
+        },
+        toggleTool(toolName: string, enabled: boolean): void {
+          setToolEnabled(toolName, enabled);
+        },
+        isAuditLogEnabled,
+        formatAuditClient(record: AuditRecord): string {
+          if (record.clientName) return record.clientName;
+          return record.sessionId ? record.sessionId.slice(0, 8) + "..." : tl("mcp.audit.local");
+        },
+        formatAuditRecord(record: AuditRecord): string {
+          return JSON.stringify(record, null, 2);
+        },
+        toggleAuditRecord(record: AuditRecord): void {
+          // @ts-ignore - Vue component context
+          this.expandedAuditRecord = this.expandedAuditRecord === record ? null : record;
+        },
+        exportAuditLog(): void {
+          // @ts-ignore - Vue component context
+          const records = [...this.filteredAuditRecords].reverse();
+          Blockbench.export(
+            {
+              type: "JSON Lines",
+              extensions: ["jsonl"],
+              name: "mcp-audit-log",
+              content: formatAuditRecords(records),
+            },
+            () => {
+              Blockbench.showQuickMessage(tl("mcp.audit.exported"), 1500);
+            }
+          );
+        },
         openToolTest(toolName: string): void {
           openToolTestDialog(toolName);
         },
@@ -176,6 +376,15 @@ export function uiSetup({
             this.promptsFilter.search = "";
           }
         },
+        onAuditLogToggle(event: Event): void {
+          const details = event.target as HTMLDetailsElement;
+          if (!details.open) {
+            // @ts-ignore - Vue component context
+            this.auditFilter.search = "";
+            // @ts-ignore - Vue component context
+            this.expandedAuditRecord = null;
+          }
+        },
       },
       name: "mcp_panel",
       template,
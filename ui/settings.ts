@@ -1,3 +1,19 @@
+import { ensureAuthToken, notifyAuthChange } from "@/lib/auth";
+import { DEFAULT_ALLOWED_HOSTS, DEFAULT_ALLOWED_ORIGINS } from "@/lib/origins";
+import { DEFAULT_HOST } from "@/lib/constants";
+import { AUDIT_LOG_FILE_NAME } from "@/lib/auditLog";
+import {
+  DEFAULT_KEEP_ALIVE_SECONDS,
+  DEFAULT_SESSION_GRACE_MINUTES,
+  DEFAULT_SESSION_TIMEOUT_MINUTES,
+  sessionManager,
+} from "@/lib/sessions";
+import {
+  DEFAULT_TOOL_PROFILE,
+  getToolProfileOptions,
+  notifyToolProfileChange,
+} from "@/lib/toolProfiles";
+
 const settings: Setting[] = [];
 
 export function settingsSetup() {
@@ -14,6 +30,15 @@ export function settingsSetup() {
       category,
       icon: "psychology",
     }),
+    new Setting("mcp_host", {
+      name: tl("mcp.settings.host_name"),
+      description: tl("mcp.settings.host_desc"),
+      type: "text",
+      value: DEFAULT_HOST,
+      category,
+      icon: "lan",
+      requires_restart: true,
+    }),
     new Setting("mcp_port", {
       name: tl("mcp.settings.port_name"),
       description: tl("mcp.settings.port_desc"),
@@ -29,8 +54,152 @@ export function settingsSetup() {
       value: "/bb-mcp",
       category,
       icon: "webhook",
+    }),
+    new Setting("mcp_stream_responses", {
+      name: tl("mcp.settings.stream_responses_name"),
+      description: tl("mcp.settings.stream_responses_desc"),
+      type: "toggle",
+      value: false,
+      category,
+      icon: "stream",
+    }),
+    new Setting("mcp_session_timeout", {
+      name: tl("mcp.settings.session_timeout_name"),
+      description: tl("mcp.settings.session_timeout_desc"),
+      type: "number",
+      value: DEFAULT_SESSION_TIMEOUT_MINUTES,
+      min: 0,
+      category,
+      icon: "timer",
+      onChange: () => sessionManager.refreshTimeouts(),
+    }),
+    new Setting("mcp_session_grace_period", {
+      name: tl("mcp.settings.session_grace_period_name"),
+      description: tl("mcp.settings.session_grace_period_desc"),
+      type: "number",
+      value: DEFAULT_SESSION_GRACE_MINUTES,
+      min: 0,
+      category,
+      icon: "restore",
+    }),
+    new Setting("mcp_keep_alive_interval", {
+      name: tl("mcp.settings.keep_alive_interval_name"),
+      description: tl("mcp.settings.keep_alive_interval_desc"),
+      type: "number",
+      value: DEFAULT_KEEP_ALIVE_SECONDS,
+      min: 0,
+      category,
+      icon: "favorite",
+    }),
+    new Setting("mcp_tool_profile", {
+      name: tl("mcp.settings.tool_profile_name"),
+      description: tl("mcp.settings.tool_profile_desc"),
+      type: "select",
+      value: DEFAULT_TOOL_PROFILE,
+      options: getToolProfileOptions(),
+      category,
+      icon: "construction",
+      onChange: notifyToolProfileChange,
+    }),
+    new Setting("mcp_disabled_tools", {
+      name: tl("mcp.settings.disabled_tools_name"),
+      description: tl("mcp.settings.disabled_tools_desc"),
+      type: "text",
+      value: "",
+      category,
+      icon: "block",
+      onChange: notifyToolProfileChange,
+    }),
+    new Setting("mcp_require_approval", {
+      name: tl("mcp.settings.require_approval_name"),
+      description: tl("mcp.settings.require_approval_desc"),
+      type: "toggle",
+      value: false,
+      category,
+      icon: "front_hand",
+    }),
+    new Setting("mcp_audit_log", {
+      name: tl("mcp.settings.audit_log_name"),
+      description: tl("mcp.settings.audit_log_desc"),
+      type: "toggle",
+      value: true,
+      category,
+      icon: "history",
+    }),
+    new Setting("mcp_audit_log_path", {
+      name: tl("mcp.settings.audit_log_path_name"),
+      description: tl("mcp.settings.audit_log_path_desc", [AUDIT_LOG_FILE_NAME]),
+      type: "text",
+      value: "",
+      category,
+      icon: "description",
+    }),
+    new Setting("mcp_require_auth", {
+      name: tl("mcp.settings.require_auth_name"),
+      description: tl("mcp.settings.require_auth_desc"),
+      type: "toggle",
+      value: false,
+      category,
+      icon: "lock",
+      onChange: notifyAuthChange,
+    }),
+    new Setting("mcp_auth_token", {
+      name: tl("mcp.settings.auth_token_name"),
+      description: tl("mcp.settings.auth_token_desc"),
+      type: "text",
+      value: "",
+      category,
+      icon: "key",
+      onChange: notifyAuthChange,
+    }),
+    new Setting("mcp_allowed_hosts", {
+      name: tl("mcp.settings.allowed_hosts_name"),
+      description: tl("mcp.settings.allowed_hosts_desc"),
+      type: "text",
+      value: DEFAULT_ALLOWED_HOSTS,
+      category,
+      icon: "dns",
+    }),
+    new Setting("mcp_allowed_origins", {
+      name: tl("mcp.settings.allowed_origins_name"),
+      description: tl("mcp.settings.allowed_origins_desc"),
+      type: "text",
+      value: DEFAULT_ALLOWED_ORIGINS,
+      category,
+      icon: "public",
+    }),
+    new Setting("mcp_tls_enabled", {
+      name: tl("mcp.settings.tls_enabled_name"),
+      description: tl("mcp.settings.tls_enabled_desc"),
+      type: "toggle",
+      value: false,
+      category,
+      icon: "https",
+      requires_restart: true,
+    }),
+    new Setting("mcp_tls_cert", {
+      name: tl("mcp.settings.tls_cert_name"),
+      description: tl("mcp.settings.tls_cert_desc"),
+      type: "text",
+      value: "",
+      category,
+      icon: "verified_user",
+      requires_restart: true,
+    }),
+    new Setting("mcp_tls_key", {
+      name: tl("mcp.settings.tls_key_name"),
+      description: tl("mcp.settings.tls_key_desc"),
+      type: "text",
+      value: "",
+      category,
+      icon: "vpn_key",
+      requires_restart: true,
     })
   );
+
+  ensureAuthToken();
+  // Apply the persisted profile before any session registers its tools
+  notifyToolProfileChange();
 }
 
 export function settingsTeardown() {
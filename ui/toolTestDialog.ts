@@ -1,6 +1,7 @@
 /// <reference types="blockbench-types" />
 import { z } from "zod";
 import { getAllToolDefinitions } from "@/lib/factories";
+import { executeToolCall } from "@/lib/pipeline";
 
 interface FormElementOptions {
   label?: string;
@@ -327,7 +328,7 @@ export function openToolTestDialog(toolName: string) {
       Blockbench.showQuickMessage(tl("mcp.dialog.running_tool"), 1000);
 
       try {
-        const result = await toolDef.execute(args);
+        const result = await executeToolCall(toolName, toolDef, args, undefined);
 
         // Format result for display
         let displayResult: unknown;